@@ -0,0 +1,44 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+import { prisma } from "../src/lib/prisma";
+import roleService from "../src/services/role.service";
+
+// Accounts created before email verification existed have no emailVerifiedAt at all.
+// They are treated as verified from their creation date so that switching
+// EMAIL_VERIFICATION_POLICY to "required" doesn't lock them out. New accounts store
+// emailVerifiedAt explicitly (null until verified), so they are never matched here.
+async function backfillEmailVerification() {
+  const result = await prisma.$runCommandRaw({
+    update: "User",
+    updates: [
+      {
+        q: { emailVerifiedAt: { $exists: false } },
+        u: [{ $set: { emailVerifiedAt: "$createdAt" } }],
+        multi: true,
+      },
+    ],
+  });
+
+  return Number(result.nModified ?? 0);
+}
+
+// Seed the built-in admin, driver, passenger and operator roles and backfill legacy
+// accounts. Safe to re-run: roles that already exist are left untouched.
+async function main() {
+  const created = await roleService.seedDefaultRoles();
+
+  console.log(created.length > 0 ? `Seeded roles: ${created.join(", ")}` : "Default roles already present");
+
+  const verified = await backfillEmailVerification();
+
+  console.log(`Marked ${verified} existing account(s) as email verified`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Seeding failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
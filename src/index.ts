@@ -7,14 +7,40 @@ import rateLimit from "express-rate-limit";
 // Import routes
 import userRoutes from "./routes/user.route";
 import authRoutes from "./routes/auth.route";
+import roleRoutes from "./routes/role.route";
+import auditRoutes from "./routes/audit.route";
+import driverRoutes from "./routes/driver.route";
+import driverAdminRoutes from "./routes/driver.admin.route";
+import rideRoutes from "./routes/ride.route";
+import fareRoutes from "./routes/fare.route";
+import fareAdminRoutes from "./routes/fare.admin.route";
+import reviewRoutes from "./routes/review.route";
+import reviewAdminRoutes from "./routes/review.admin.route";
+import terminalRoutes from "./routes/terminal.route";
+import terminalAdminRoutes from "./routes/terminal.admin.route";
+import vehicleRoutes from "./routes/vehicle.route";
+import operatorRoutes from "./routes/operator.route";
+import ledgerRoutes from "./routes/ledger.route";
+import ledgerAdminRoutes from "./routes/ledger.admin.route";
+import notificationRoutes from "./routes/notification.route";
+import eventRoutes from "./routes/event.route";
 
 // Import middleware
 import { errorHandler } from "./middleware/error.handler";
 import { notFound } from "./middleware/not.found";
 import { httpLogger } from "./middleware/logger";
+import { requestId } from "./middleware/request.context";
+import { idempotency } from "./middleware/idempotency";
+import { loadRolePolicies } from "./middleware/rbac";
+import { createErrorResponse } from "./utils/response";
+
+// Import background jobs
+import { startUserRetentionJob } from "./jobs/user.retention.job";
+import { startDriverExpiryJob } from "./jobs/driver.expiry.job";
+import { startQueueCleanupJob } from "./jobs/queue.cleanup.job";
 
 // Import the database connection
-import { connectDatabase } from "./lib/db.connection";
+import { connectDatabase, ensureIndexes } from "./lib/db.connection";
 
 // Load environment variables
 dotenv.config();
@@ -26,7 +52,7 @@ const PORT = process.env.PORT || 5000;
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // limit each IP to 100 requests per windowMs
-  message: "Too many requests from this IP, please try again later.",
+  message: createErrorResponse("TOO_MANY_REQUESTS", "Too many requests from this IP, please try again later."),
 });
 
 // Middleware
@@ -35,12 +61,15 @@ app.use(
   cors({
     origin: process.env.FRONTEND_URL || "https://nextjs-template-frontend.vercel.app" || "http://localhost:3000",
     credentials: true,
+    exposedHeaders: ["Idempotent-Replayed"],
   })
 );
 app.use(limiter);
 app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: true }));
+app.use(requestId);
 app.use(httpLogger); // Winston HTTP logging
+app.use(idempotency); // Replay retried mutations sent with an Idempotency-Key
 
 // Health check endpoint
 app.get("/health", (req, res) => {
@@ -54,6 +83,23 @@ app.get("/health", (req, res) => {
 // API routes
 app.use("/api/auth", authRoutes);
 app.use("/api/user", userRoutes);
+app.use("/api/admin/roles", roleRoutes);
+app.use("/api/admin/audit-logs", auditRoutes);
+app.use("/api/drivers", driverRoutes);
+app.use("/api/admin/drivers", driverAdminRoutes);
+app.use("/api/rides", rideRoutes);
+app.use("/api/fares", fareRoutes);
+app.use("/api/admin/fares", fareAdminRoutes);
+app.use("/api/reviews", reviewRoutes);
+app.use("/api/admin/reviews", reviewAdminRoutes);
+app.use("/api/terminals", terminalRoutes);
+app.use("/api/admin/terminals", terminalAdminRoutes);
+app.use("/api/vehicles", vehicleRoutes);
+app.use("/api/operators", operatorRoutes);
+app.use("/api/ledger", ledgerRoutes);
+app.use("/api/admin/ledger", ledgerAdminRoutes);
+app.use("/api/notifications", notificationRoutes);
+app.use("/api/events", eventRoutes);
 
 // Error handling middleware
 app.use(notFound);
@@ -68,6 +114,12 @@ async function startServer() {
     process.exit(1);
   }
 
+  await ensureIndexes();
+  await loadRolePolicies();
+  startUserRetentionJob();
+  startDriverExpiryJob();
+  startQueueCleanupJob();
+
   app.listen(PORT, () => {
     console.log(`🚀 Server running on http://localhost:${PORT}`);
   });
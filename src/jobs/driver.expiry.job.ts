@@ -0,0 +1,21 @@
+import driverService from "../services/driver.service";
+import { logError, logInfo } from "../middleware/logger";
+
+async function runExpiry() {
+  try {
+    const expired = await driverService.expireProfiles();
+    if (expired > 0) {
+      logInfo(`Driver expiry: marked ${expired} driver profile(s) as expired`);
+    }
+  } catch (error) {
+    logError("Driver expiry job failed", error);
+  }
+}
+
+// Periodically move approved driver profiles with a lapsed license or franchise to expired
+export const startDriverExpiryJob = () => {
+  const intervalMinutes = Number(process.env.DRIVER_EXPIRY_INTERVAL_MINUTES) || 60;
+
+  void runExpiry();
+  setInterval(runExpiry, intervalMinutes * 60 * 1000).unref();
+};
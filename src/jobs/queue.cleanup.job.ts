@@ -0,0 +1,21 @@
+import queueService from "../services/queue.service";
+import { logError, logInfo } from "../middleware/logger";
+
+async function runCleanup() {
+  try {
+    const removed = await queueService.removeIneligibleDrivers();
+    if (removed > 0) {
+      logInfo(`Queue cleanup: removed ${removed} ineligible driver(s) from terminal queues`);
+    }
+  } catch (error) {
+    logError("Queue cleanup job failed", error);
+  }
+}
+
+// Periodically drop queued drivers who were deactivated, banned, deleted or lost their approval
+export const startQueueCleanupJob = () => {
+  const intervalMinutes = Number(process.env.QUEUE_CLEANUP_INTERVAL_MINUTES) || 5;
+
+  void runCleanup();
+  setInterval(runCleanup, intervalMinutes * 60 * 1000).unref();
+};
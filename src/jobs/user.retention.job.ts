@@ -0,0 +1,35 @@
+import userService from "../services/user.service";
+import { logError, logInfo } from "../middleware/logger";
+
+const BATCH_SIZE = 100;
+
+// Work through the backlog batch by batch; a short batch means nothing is left
+async function runRetention(days: number, mode: "anonymize" | "purge") {
+  try {
+    let processed = 0;
+    let batch: number;
+
+    do {
+      batch = await userService.applyRetention(days, mode, BATCH_SIZE);
+      processed += batch;
+    } while (batch === BATCH_SIZE);
+
+    if (processed > 0) {
+      logInfo(`User retention: ${mode === "purge" ? "purged" : "anonymized"} ${processed} deleted account(s)`);
+    }
+  } catch (error) {
+    logError("User retention job failed", error);
+  }
+}
+
+// Periodically anonymize or purge soft-deleted accounts. Disabled unless USER_RETENTION_DAYS is set.
+export const startUserRetentionJob = () => {
+  const days = Number(process.env.USER_RETENTION_DAYS) || 0;
+  const mode = process.env.USER_RETENTION_MODE === "purge" ? "purge" : "anonymize";
+  const intervalMinutes = Number(process.env.USER_RETENTION_INTERVAL_MINUTES) || 60;
+
+  if (days <= 0) return;
+
+  void runRetention(days, mode);
+  setInterval(() => runRetention(days, mode), intervalMinutes * 60 * 1000).unref();
+};
@@ -24,3 +24,46 @@ export async function connectDatabase() {
     return false;
   }
 }
+
+// Indexes Prisma can't declare for MongoDB. createIndexes is a no-op for indexes that already exist.
+export async function ensureIndexes() {
+  await prisma.$runCommandRaw({
+    createIndexes: "DriverLocation",
+    indexes: [
+      { key: { location: "2dsphere" }, name: "location_2dsphere" },
+      // Documents are removed once expiresAt has passed
+      { key: { expiresAt: 1 }, name: "expiresAt_ttl", expireAfterSeconds: 0 },
+    ],
+  });
+
+  await prisma.$runCommandRaw({
+    createIndexes: "LedgerEntry",
+    indexes: [
+      // At most one reversal per entry; entries that aren't reversals have no reversesId
+      {
+        key: { reversesId: 1 },
+        name: "reversesId_unique",
+        unique: true,
+        partialFilterExpression: { reversesId: { $type: "objectId" } },
+      },
+    ],
+  });
+
+  await prisma.$runCommandRaw({
+    createIndexes: "VehicleAssignment",
+    indexes: [
+      // A driver has at most one open assignment; ended ones have an endedAt date
+      {
+        key: { driverId: 1 },
+        name: "driverId_open_unique",
+        unique: true,
+        partialFilterExpression: { endedAt: { $type: "null" } },
+      },
+    ],
+  });
+
+  await prisma.$runCommandRaw({
+    createIndexes: "IdempotencyRecord",
+    indexes: [{ key: { expiresAt: 1 }, name: "expiresAt_ttl", expireAfterSeconds: 0 }],
+  });
+}
@@ -0,0 +1,75 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+
+export interface BusEvent {
+  id: string; // resume token; opaque to clients
+  topic: string;
+  type: string;
+  data: unknown;
+  publishedAt: string;
+}
+
+export type BusEventHandler = (event: BusEvent) => void;
+
+// Everything the real-time layer needs from a pub/sub backend. The in-process bus
+// below only reaches connections on this server; a Redis or NATS implementation can
+// replace it without touching publishers or the stream route.
+export interface EventBus {
+  publish(topic: string, type: string, data: unknown): Promise<BusEvent>;
+  // Returns a function that removes the subscription
+  subscribe(topic: string, handler: BusEventHandler): () => void;
+  // Events on the given topics published after the event with afterId, oldest first.
+  // null means afterId is unknown or too old and the client has to resync.
+  replay(topics: string[], afterId: string): Promise<BusEvent[] | null>;
+}
+
+// In-process bus keeping the last historySize events for resuming connections.
+// Event ids carry a per-process prefix, so tokens from before a restart are rejected.
+export const createInMemoryEventBus = (historySize = 1000): EventBus => {
+  const emitter = new EventEmitter();
+  const bootId = randomUUID().slice(0, 8);
+  const history: BusEvent[] = [];
+  let sequence = 0;
+
+  // One listener per connection per topic; the default limit of 10 is far too low
+  emitter.setMaxListeners(0);
+
+  const parseId = (id: string) => {
+    const [prefix, value] = id.split(".");
+    const seq = Number(value);
+    return prefix === bootId && Number.isInteger(seq) ? seq : undefined;
+  };
+
+  return {
+    async publish(topic, type, data) {
+      sequence += 1;
+      const event: BusEvent = { id: `${bootId}.${sequence}`, topic, type, data, publishedAt: new Date().toISOString() };
+
+      history.push(event);
+      if (history.length > historySize) history.shift();
+
+      emitter.emit(topic, event);
+      return event;
+    },
+
+    subscribe(topic, handler) {
+      emitter.on(topic, handler);
+      return () => {
+        emitter.off(topic, handler);
+      };
+    },
+
+    async replay(topics, afterId) {
+      const after = parseId(afterId);
+      if (after === undefined || after > sequence) return null;
+
+      // Events between the token and the oldest one kept have been dropped
+      const oldest = history.length > 0 ? (parseId(history[0].id) as number) : sequence + 1;
+      if (after < oldest - 1) return null;
+
+      return history.filter((event) => (parseId(event.id) as number) > after && topics.includes(event.topic));
+    },
+  };
+};
+
+export const eventBus: EventBus = createInMemoryEventBus(Number(process.env.REALTIME_HISTORY_SIZE) || 1000);
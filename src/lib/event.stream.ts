@@ -0,0 +1,105 @@
+import { Response } from "express";
+import { BusEvent, eventBus } from "./event.bus";
+
+export interface EventStreamOptions {
+  topics: string[];
+  resumeToken?: string;
+  heartbeatSeconds: number;
+  // Runs before each heartbeat. Returns the topics the connection may no longer
+  // receive, or null if the whole stream must be closed.
+  recheck: (topics: string[]) => Promise<string[] | null>;
+}
+
+// Serve bus events on the given topics as a server-sent event stream until the
+// client disconnects. Bus events use the default "message" event with the event id
+// as resume token; control events (ready, heartbeat, resync, unsubscribed, close)
+// are named and carry no id, so they never move the client's resume point.
+export const openEventStream = async (res: Response, options: EventStreamOptions) => {
+  const subscriptions = new Map<string, () => void>();
+  let closed = false;
+  let checking = false;
+
+  // Live events that arrive while missed ones are being replayed wait here
+  let pending: BusEvent[] | null = [];
+
+  const write = (chunk: string) => {
+    if (!closed) res.write(chunk);
+  };
+
+  const send = (event: BusEvent) =>
+    write(`id: ${event.id}\ndata: ${JSON.stringify({ topic: event.topic, type: event.type, data: event.data, publishedAt: event.publishedAt })}\n\n`);
+
+  const sendControl = (type: string, data: unknown) => write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  const deliver = (event: BusEvent) => (pending ? pending.push(event) : send(event));
+
+  const unsubscribe = (topics: string[]) => {
+    for (const topic of topics) {
+      subscriptions.get(topic)?.();
+      subscriptions.delete(topic);
+    }
+  };
+
+  const close = (reason?: string) => {
+    if (closed) return;
+    if (reason) sendControl("close", { reason });
+
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe([...subscriptions.keys()]);
+    res.end();
+  };
+
+  const beat = async () => {
+    if (checking || closed) return;
+    checking = true;
+
+    try {
+      const denied = await options.recheck([...subscriptions.keys()]);
+      if (denied === null) return close("session_ended");
+
+      if (denied.length > 0) {
+        unsubscribe(denied);
+        sendControl("unsubscribed", { topics: denied });
+      }
+      if (subscriptions.size === 0) return close("no_topics");
+
+      sendControl("heartbeat", { at: new Date().toISOString() });
+    } catch (error) {
+      close("server_error");
+    } finally {
+      checking = false;
+    }
+  };
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // stop nginx from buffering the stream
+  });
+  res.flushHeaders();
+
+  const heartbeat = setInterval(beat, options.heartbeatSeconds * 1000);
+  heartbeat.unref();
+  res.on("close", () => close());
+
+  // Subscribe before replaying so nothing published in between is lost
+  for (const topic of options.topics) {
+    subscriptions.set(topic, eventBus.subscribe(topic, deliver));
+  }
+
+  write("retry: 3000\n\n");
+  sendControl("ready", { topics: options.topics });
+
+  const missed = options.resumeToken ? await eventBus.replay(options.topics, options.resumeToken) : [];
+  if (missed === null) {
+    // The client missed events we no longer have and should refetch current state
+    sendControl("resync", { reason: "resume_token_expired" });
+  }
+
+  const replayed = new Set((missed ?? []).map((event) => event.id));
+  (missed ?? []).forEach(send);
+  pending.filter((event) => !replayed.has(event.id)).forEach(send);
+  pending = null;
+};
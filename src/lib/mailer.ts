@@ -0,0 +1,83 @@
+import fs from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+import { MailMessage, MailTransport } from "../types";
+
+// Logs outgoing mail to stdout - default for development
+export const createConsoleTransport = (): MailTransport => ({
+  name: "console",
+  send: async (message) => {
+    console.log(`📧 Mail to ${message.to} | ${message.subject}\n${message.text}`);
+  },
+});
+
+// Writes each message as a JSON file so tests and developers can inspect it
+export const createFileTransport = (directory: string): MailTransport => ({
+  name: "file",
+  send: async (message) => {
+    await fs.promises.mkdir(directory, { recursive: true });
+    const filename = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.json`;
+    await fs.promises.writeFile(
+      path.join(directory, filename),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  },
+});
+
+// Delivers mail through an SMTP server - used in production
+export const createSmtpTransport = (options: {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    send: async (message) => {
+      await transporter.sendMail(message);
+    },
+  };
+};
+
+// Pick the transport from MAIL_TRANSPORT (console | file | smtp)
+const createTransportFromEnv = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "smtp":
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST || "localhost",
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      });
+    case "file":
+      return createFileTransport(process.env.MAIL_FILE_DIR || "logs/mail");
+    default:
+      return createConsoleTransport();
+  }
+};
+
+let transport: MailTransport | undefined;
+
+export const mailer = {
+  // Swap the transport at runtime (e.g. in tests)
+  setTransport: (next: MailTransport) => {
+    transport = next;
+  },
+
+  send: async (message: MailMessage) => {
+    transport = transport ?? createTransportFromEnv();
+    await transport.send({
+      ...message,
+      from: process.env.MAIL_FROM || "Tricycle API <no-reply@tricycle.local>",
+    });
+  },
+};
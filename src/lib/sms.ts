@@ -0,0 +1,43 @@
+import fs from "fs";
+import path from "path";
+import { SmsMessage, SmsTransport } from "../types";
+
+// Logs outgoing text messages to stdout - default for development
+export const createConsoleSmsTransport = (): SmsTransport => ({
+  name: "console",
+  send: async (message) => {
+    console.log(`📱 SMS to ${message.to}\n${message.text}`);
+  },
+});
+
+// Writes each message as a JSON file so tests and developers can inspect it
+export const createFileSmsTransport = (directory: string): SmsTransport => ({
+  name: "file",
+  send: async (message) => {
+    await fs.promises.mkdir(directory, { recursive: true });
+    const filename = `${Date.now()}-${message.to.replace(/[^0-9+]/g, "_")}.json`;
+    await fs.promises.writeFile(
+      path.join(directory, filename),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  },
+});
+
+// Pick the transport from SMS_TRANSPORT (console | file). An SMS gateway plugs in
+// through sms.setTransport.
+const createTransportFromEnv = (): SmsTransport =>
+  process.env.SMS_TRANSPORT === "file" ? createFileSmsTransport(process.env.SMS_FILE_DIR || "logs/sms") : createConsoleSmsTransport();
+
+let transport: SmsTransport | undefined;
+
+export const sms = {
+  // Swap the transport at runtime (e.g. in tests)
+  setTransport: (next: SmsTransport) => {
+    transport = next;
+  },
+
+  send: async (message: SmsMessage) => {
+    transport = transport ?? createTransportFromEnv();
+    await transport.send(message);
+  },
+};
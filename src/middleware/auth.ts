@@ -1,24 +1,56 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { prisma } from "../lib/prisma";
-import { AuthUser } from "../types";
+import tokenService, { AccessTokenPayload } from "../services/token.service";
+import { AuthUser, EmailVerificationPolicy } from "../types";
+import { ForbiddenError, UnauthorizedError } from "../utils/errors";
 
 interface AuthRequest extends Request {
   user?: AuthUser;
 }
 
-export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
+// off: verification is informational only
+// limited: unverified users can log in but are blocked by requireVerifiedEmail
+// required: unverified users can neither log in nor use existing tokens
+export const EMAIL_VERIFICATION_POLICY = (process.env.EMAIL_VERIFICATION_POLICY || "limited") as EmailVerificationPolicy;
+
+// Where a request's token comes from, and what kind of token is expected there
+type TokenSource = (req: Request) => { token?: string; purpose?: AccessTokenPayload["purpose"] };
+
+const bearerToken: TokenSource = (req) => ({ token: req.headers.authorization?.replace("Bearer ", "") });
+
+// EventSource can't send headers, so event streams also take a stream token in the
+// query string. Access tokens are never read from URLs, which end up in logs.
+const bearerOrStreamToken: TokenSource = (req) =>
+  req.headers.authorization
+    ? bearerToken(req)
+    : { token: typeof req.query.token === "string" ? req.query.token : undefined, purpose: "event_stream" };
+
+const authenticateWith = (source: TokenSource) => async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const token = req.headers.authorization?.replace("Bearer ", "");
+    const { token, purpose } = source(req);
 
     if (!token) {
-      return res.status(401).json({
-        success: false,
-        message: "No token, authorization denied",
-      });
+      return next(new UnauthorizedError("No token, authorization denied"));
+    }
+
+    let decoded: AccessTokenPayload;
+    try {
+      decoded = jwt.verify(token, process.env.JWT_SECRET || "") as AccessTokenPayload;
+    } catch (error) {
+      return next(new UnauthorizedError("Token is not valid", "INVALID_TOKEN"));
+    }
+
+    // Stream tokens only work where a stream token is expected, and vice versa
+    if (decoded.purpose !== purpose) {
+      return next(new UnauthorizedError("Token is not valid", "INVALID_TOKEN"));
+    }
+
+    // Reject tokens whose session was logged out or revoked
+    if (!decoded.sid || !(await tokenService.isSessionActive(decoded.sid))) {
+      return next(new UnauthorizedError("Session has been revoked", "SESSION_REVOKED"));
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || "") as any;
     const user = await prisma.user.findUnique({
       where: { 
         id: decoded.userId,
@@ -33,27 +65,46 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
         middleName: true,
         role: true,
         status: true,
+        emailVerifiedAt: true,
         createdAt: true,
       },
     });
 
     if (!user) {
-      return res.status(401).json({
-        success: false,
-        message: "Token is not valid",
-      });
+      return next(new UnauthorizedError("Token is not valid", "INVALID_TOKEN"));
     }
 
+    if (EMAIL_VERIFICATION_POLICY === "required" && !user.emailVerifiedAt) {
+      return next(new ForbiddenError("Email address not verified", "EMAIL_NOT_VERIFIED"));
+    }
+
+    const { emailVerifiedAt, ...authUser } = user;
     req.user = {
-      ...user,
+      ...authUser,
       middleName: user.middleName || undefined,
+      emailVerified: !!emailVerifiedAt,
+      sessionId: decoded.sid,
     };
     next();
   } catch (error) {
-    console.error("Auth middleware error:", error);
-    res.status(401).json({
-      success: false,
-      message: "Token is not valid",
-    });
+    next(error);
+  }
+};
+
+export const authenticate = authenticateWith(bearerToken);
+
+// For GET /api/events: a bearer access token, or a stream token in ?token=
+export const authenticateStream = authenticateWith(bearerOrStreamToken);
+
+// Blocks unverified accounts unless the verification policy is "off"
+export const requireVerifiedEmail = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return next(new UnauthorizedError());
   }
+
+  if (EMAIL_VERIFICATION_POLICY !== "off" && !req.user.emailVerified) {
+    return next(new ForbiddenError("Email address not verified", "EMAIL_NOT_VERIFIED"));
+  }
+
+  next();
 };
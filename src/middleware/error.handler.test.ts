@@ -0,0 +1,52 @@
+import { Request, Response } from "express";
+import { errorHandler } from "./error.handler";
+
+// Shaped like the errors body-parser passes to next()
+const bodyParserError = (type: string, status: number, message: string) =>
+  Object.assign(new Error(message), { type, status, statusCode: status, expose: true });
+
+const handle = (err: unknown) => {
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+  const req = { method: "POST", originalUrl: "/api/rides", ip: "127.0.0.1" } as Request;
+
+  errorHandler(err, req, res as unknown as Response, jest.fn());
+
+  return { status: res.status.mock.calls[0][0], body: res.json.mock.calls[0][0] };
+};
+
+describe("errorHandler", () => {
+  it("maps malformed JSON to 400", () => {
+    expect(handle(bodyParserError("entity.parse.failed", 400, "Unexpected token"))).toMatchObject({
+      status: 400,
+      body: { error: "BAD_REQUEST", message: "Malformed JSON body" },
+    });
+  });
+
+  it("maps oversized bodies to 413", () => {
+    expect(handle(bodyParserError("entity.too.large", 413, "request entity too large"))).toMatchObject({
+      status: 413,
+      body: { error: "PAYLOAD_TOO_LARGE", message: "request entity too large" },
+    });
+  });
+
+  it("maps unsupported encodings to 415", () => {
+    expect(handle(bodyParserError("encoding.unsupported", 415, 'unsupported content encoding "br"'))).toMatchObject({
+      status: 415,
+      body: { error: "UNSUPPORTED_MEDIA_TYPE" },
+    });
+  });
+
+  it("keeps other body-parser client errors at their status", () => {
+    expect(handle(bodyParserError("request.aborted", 400, "request aborted"))).toMatchObject({
+      status: 400,
+      body: { error: "BAD_REQUEST", message: "request aborted" },
+    });
+  });
+
+  it("still treats unknown errors as 500", () => {
+    expect(handle(Object.assign(new Error("boom"), { status: 413 }))).toMatchObject({
+      status: 500,
+      body: { error: "INTERNAL_ERROR" },
+    });
+  });
+});
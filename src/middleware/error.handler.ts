@@ -1,36 +1,75 @@
 import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+  ValidationError,
+} from "../utils/errors";
+import { createErrorResponse } from "../utils/response";
+import { logError } from "./logger";
 
-export interface CustomError extends Error {
-  statusCode?: number;
-}
+// Translate Prisma and body-parser errors into typed AppErrors
+const normalizeError = (err: any): AppError => {
+  if (err instanceof AppError) return err;
 
-export const errorHandler = (err: CustomError, req: Request, res: Response, next: NextFunction) => {
-  let error = { ...err };
-  error.message = err.message;
+  if (err instanceof Prisma.PrismaClientKnownRequestError) {
+    switch (err.code) {
+      // Unique constraint violation
+      case "P2002": {
+        const target = (err.meta?.target as string[] | string | undefined) ?? "field";
+        return new ConflictError(`Duplicate value for ${Array.isArray(target) ? target.join(", ") : target}`);
+      }
+      // Record to update/delete not found
+      case "P2025":
+        return new NotFoundError((err.meta?.cause as string) || "Resource not found");
+      // Malformed ObjectId
+      case "P2023":
+        return new BadRequestError("Invalid id format", "INVALID_ID");
+    }
+  }
 
-  // Log error
-  console.error(err);
+  if (err instanceof Prisma.PrismaClientValidationError) {
+    return new BadRequestError("Invalid query parameters");
+  }
 
-  // Mongoose bad ObjectId
-  if (err.name === "CastError") {
-    const message = "Resource not found";
-    error = { message, statusCode: 404 } as CustomError;
+  // express.json() parse failures
+  if (err?.type === "entity.parse.failed") {
+    return new BadRequestError("Malformed JSON body");
   }
 
-  // Mongoose duplicate key
-  if (err.name === "MongoError" && (err as any).code === 11000) {
-    const message = "Duplicate field value entered";
-    error = { message, statusCode: 400 } as CustomError;
+  // Other body-parser failures carry their client error status, e.g. entity.too.large (413)
+  // or encoding.unsupported (415); their messages are safe to show when expose is set
+  const status = err?.status ?? err?.statusCode;
+  if (err?.type && status >= 400 && status < 500) {
+    const message = err.expose ? err.message : undefined;
+
+    switch (status) {
+      case 413:
+        return new PayloadTooLargeError(message);
+      case 415:
+        return new UnsupportedMediaTypeError(message);
+      default:
+        return new AppError(message || "Bad request", status, "BAD_REQUEST");
+    }
   }
 
-  // Mongoose validation error
-  if (err.name === "ValidationError") {
-    const message = Object.values((err as any).errors).map((val: any) => val.message);
-    error = { message: message.join(", "), statusCode: 400 } as CustomError;
+  return new AppError("Server error");
+};
+
+export const errorHandler = (err: any, req: Request, res: Response, next: NextFunction) => {
+  const error = normalizeError(err);
+
+  // Log error with the original stack
+  logError(`${error.code}: ${error.message}`, error.statusCode >= 500 ? err : undefined, req);
+
+  const response = createErrorResponse(error.code, error.message);
+  if (error instanceof ValidationError) {
+    response.errors = error.errors;
   }
 
-  res.status(error.statusCode || 500).json({
-    success: false,
-    error: error.message || "Server Error",
-  });
+  res.status(error.statusCode).json(response);
 };
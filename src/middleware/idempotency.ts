@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from "express";
+import jwt from "jsonwebtoken";
+import idempotencyService from "../services/idempotency.service";
+import { AccessTokenPayload } from "../services/token.service";
+import { IdempotencyRequest } from "../types";
+import { BadRequestError } from "../utils/errors";
+
+const MUTATING_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+export const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+// Whose key this is. Only the token signature is checked here; authenticate still does
+// the full check, and a request it rejects is never stored.
+const scopeOf = (req: Request) => {
+  const token = req.headers.authorization?.replace("Bearer ", "");
+  if (!token) return "anonymous";
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || "") as AccessTokenPayload;
+    return `user:${decoded.userId}`;
+  } catch (error) {
+    return "anonymous";
+  }
+};
+
+// Make mutating requests safe to retry. When a request carries an Idempotency-Key, its
+// successful response is stored per caller, method and path; a retry with the same key
+// and payload gets that response back with Idempotent-Replayed: true instead of running
+// again. Failed requests release the key so they can be retried.
+export const idempotency = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.get("Idempotency-Key");
+
+  if (!key || !MUTATING_METHODS.includes(req.method)) {
+    return next();
+  }
+
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    return next(new BadRequestError("Idempotency-Key must be 1-255 printable characters"));
+  }
+
+  const request: IdempotencyRequest = {
+    scope: scopeOf(req),
+    method: req.method,
+    path: req.originalUrl.split("?")[0],
+    key,
+  };
+
+  try {
+    const stored = await idempotencyService.begin(request, { query: req.query, body: req.body });
+
+    if (stored) {
+      res.set("Idempotent-Replayed", "true").status(stored.status);
+      return stored.body === undefined ? res.end() : res.json(stored.body);
+    }
+  } catch (error) {
+    return next(error);
+  }
+
+  let responseBody: unknown;
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    responseBody = body;
+    return json(body);
+  };
+
+  // Neither call rejects: both log their own failures, and complete releases the key
+  // when it can't store the response
+  res.on("close", () => {
+    if (res.writableFinished && res.statusCode >= 200 && res.statusCode < 300) {
+      void idempotencyService.complete(request, res.statusCode, responseBody);
+    } else {
+      void idempotencyService.release(request);
+    }
+  });
+
+  next();
+};
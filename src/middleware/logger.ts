@@ -40,17 +40,20 @@ const logger = winston.createLogger({
   ]
 });
 
+// Stream tokens travel in the query string; keep them out of the logs
+export const redactUrl = (url: string) => url.replace(/([?&]token=)[^&]*/g, "$1[REDACTED]");
+
 // Simplified logging functions for routes
 export const logInfo = (message: string, req?: Request) => {
   const logMessage = req 
-    ? `${message} | ${req.method} ${req.originalUrl} | User: ${req.user?.id || 'Anonymous'} | IP: ${req.ip}`
+    ? `${message} | ${req.method} ${redactUrl(req.originalUrl)} | User: ${req.user?.id || 'Anonymous'} | IP: ${req.ip}`
     : message;
   logger.info(logMessage);
 };
 
 export const logError = (message: string, error?: any, req?: Request) => {
   const logMessage = req 
-    ? `${message} | ${req.method} ${req.originalUrl} | User: ${req.user?.id || 'Anonymous'} | IP: ${req.ip}`
+    ? `${message} | ${req.method} ${redactUrl(req.originalUrl)} | User: ${req.user?.id || 'Anonymous'} | IP: ${req.ip}`
     : message;
   
   if (error) {
@@ -68,7 +71,7 @@ export const httpLogger = (req: Request, res: Response, next: NextFunction) => {
     const duration = Date.now() - start;
     const statusColor = res.statusCode >= 400 ? 'error' : 'info';
     
-    logger.log(statusColor, `${req.method} ${req.originalUrl} - ${res.statusCode} - ${duration}ms | IP: ${req.ip} | User-Agent: ${req.get('User-Agent')}`);
+    logger.log(statusColor, `${req.method} ${redactUrl(req.originalUrl)} - ${res.statusCode} - ${duration}ms | IP: ${req.ip} | User-Agent: ${req.get('User-Agent')} | Request: ${req.id}`);
   });
   
   next();
@@ -1,7 +1,7 @@
 import { Request, Response, NextFunction } from "express";
+import { NotFoundError } from "../utils/errors";
+import { redactUrl } from "./logger";
 
 export const notFound = (req: Request, res: Response, next: NextFunction) => {
-  const error = new Error(`Not found - ${req.originalUrl}`);
-  res.status(404);
-  next(error);
+  next(new NotFoundError(`Not found - ${redactUrl(req.originalUrl)}`));
 };
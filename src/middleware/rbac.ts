@@ -1,19 +1,136 @@
 import { Request, Response, NextFunction } from "express";
-import { Role, Permission, RolePermissions } from "../types";
+import { prisma } from "../lib/prisma";
+import { Role, Permission, Actor, PolicyCondition, PolicyResource, PolicyRule, RolePolicies } from "../types";
+import { ForbiddenError, UnauthorizedError } from "../utils/errors";
+import { logError } from "./logger";
 
-// Define role-based permissions
-const ROLE_PERMISSIONS: RolePermissions = {
-  admin: ["read:users", "write:users", "delete:users", "admin:all"],
-  driver: ["read:users"],
-  passenger: ["read:users"],
+export const PERMISSIONS: Permission[] = [
+  "read:users",
+  "write:users",
+  "delete:users",
+  "dispatch:queues",
+  "manage:vehicles",
+  "admin:all",
+];
+
+// Built-in role policies, seeded into the Role collection and used for any of
+// these roles that hasn't been seeded. A role may perform an action if any of
+// its rules for that action matches; a rule without conditions always matches.
+export const DEFAULT_ROLE_POLICIES: RolePolicies = {
+  admin: [
+    { action: "read:users" },
+    { action: "write:users" },
+    // Admins cannot delete other admins
+    { action: "delete:users", when: { notRoles: ["admin"] } },
+    { action: "admin:all" },
+  ],
+  driver: [{ action: "read:users" }, { action: "write:users", when: { own: true } }],
+  passenger: [{ action: "read:users" }, { action: "write:users", when: { own: true } }],
+  // Franchise holders manage the vehicles they own and who drives them
+  operator: [
+    { action: "read:users" },
+    { action: "write:users", when: { own: true } },
+    { action: "manage:vehicles", when: { own: true } },
+  ],
+};
+
+// How long other instances may serve role changes they haven't seen yet
+const ROLE_CACHE_TTL_MS = Number(process.env.ROLE_CACHE_TTL_SECONDS || 60) * 1000;
+
+let rolePolicies: RolePolicies = DEFAULT_ROLE_POLICIES;
+let loadedAt = 0;
+let loading: Promise<void> | null = null;
+
+type StoredRule = {
+  action: string;
+  when: { own: boolean | null; roles: string[]; notRoles?: string[]; statuses: PolicyResource["status"][] } | null;
+};
+
+// Empty lists and nulls in stored conditions mean "no constraint"
+const toPolicyRule = ({ action, when }: StoredRule): PolicyRule => {
+  if (!when) return { action: action as Permission };
+
+  const condition: PolicyCondition = {};
+  if (when.own) condition.own = true;
+  if (when.roles.length > 0) condition.roles = when.roles;
+  if (when.notRoles && when.notRoles.length > 0) condition.notRoles = when.notRoles;
+  if (when.statuses.length > 0) condition.statuses = when.statuses as PolicyCondition["statuses"];
+
+  return { action: action as Permission, when: condition };
+};
+
+// Reload role policies from the database. Concurrent callers share one query, and a
+// failed load keeps serving the previous policies.
+export const loadRolePolicies = async () => {
+  if (!loading) {
+    loading = prisma.role
+      .findMany({ select: { name: true, permissions: true } })
+      .then((roles) => {
+        rolePolicies = {
+          ...DEFAULT_ROLE_POLICIES,
+          ...Object.fromEntries(roles.map((role) => [role.name, role.permissions.map(toPolicyRule)])),
+        };
+        loadedAt = Date.now();
+      })
+      .catch((error) => logError("Failed to load role policies", error))
+      .finally(() => {
+        loading = null;
+      });
+  }
+
+  return loading;
 };
 
+// Refresh the cached policies once they are older than the TTL
+export const ensureRolePolicies = async () => {
+  if (Date.now() - loadedAt > ROLE_CACHE_TTL_MS) {
+    await loadRolePolicies();
+  }
+};
+
+const matchesCondition = (actor: Actor, condition: PolicyCondition, resource: PolicyResource): boolean => {
+  if (condition.own && resource.ownerId !== actor.id) return false;
+  if (condition.roles && (!resource.role || !condition.roles.includes(resource.role))) return false;
+  if (condition.notRoles && (!resource.role || condition.notRoles.includes(resource.role))) return false;
+  if (condition.statuses && (!resource.status || !condition.statuses.includes(resource.status))) return false;
+  return true;
+};
+
+// Whether the actor may perform the action on the resource. Without a resource
+// the answer is whether the action is allowed on at least some resource, which is
+// what route middleware can know before the resource has been loaded.
+export const can = (actor: Actor | undefined, action: Permission, resource?: PolicyResource): boolean => {
+  if (!actor) return false;
+
+  const rules = (rolePolicies[actor.role] || []).filter((rule) => rule.action === action);
+
+  return rules.some((rule) => !rule.when || !resource || matchesCondition(actor, rule.when, resource));
+};
+
+// Policy resource for a user record; users own their own record
+export const userResource = (user: { id: string; role: Role; status: PolicyResource["status"] }): PolicyResource => ({
+  ownerId: user.id,
+  role: user.role,
+  status: user.status,
+});
+
 // RBAC Helper functions
 export const rbac = {
-  // Check if user has specific permission
+  can,
+
+  // Check if a role has a permission on at least some resource (cached)
   hasPermission: (userRole: Role, permission: Permission): boolean => {
-    const permissions = ROLE_PERMISSIONS[userRole] || [];
-    return permissions.includes(permission) || permissions.includes("admin:all");
+    return (rolePolicies[userRole] || []).some((rule) => rule.action === permission);
+  },
+
+  // Whether a role is defined, either in the database or as a built-in default
+  roleExists: (role: Role): boolean => {
+    return Object.prototype.hasOwnProperty.call(rolePolicies, role);
+  },
+
+  // Drop the cached policies so the next check reloads them
+  invalidate: () => {
+    loadedAt = 0;
   },
 
   // Check if user has any of the required permissions
@@ -36,37 +153,29 @@ export const rbac = {
 export const requireRole = (...allowedRoles: Role[]) => {
   return (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
-      return res.status(401).json({
-        success: false,
-        message: "Authentication required",
-      });
+      return next(new UnauthorizedError());
     }
 
     if (!rbac.isRoleAllowed(req.user.role, allowedRoles)) {
-      return res.status(403).json({
-        success: false,
-        message: "Insufficient permissions",
-      });
+      return next(new ForbiddenError());
     }
 
     next();
   };
 };
 
+// Conditional rules are only pre-checked here; the service re-checks them
+// against the loaded resource
 export const requirePermission = (...permissions: Permission[]) => {
-  return (req: Request, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
-      return res.status(401).json({
-        success: false,
-        message: "Authentication required",
-      });
+      return next(new UnauthorizedError());
     }
 
-    if (!rbac.hasAnyPermission(req.user.role, permissions)) {
-      return res.status(403).json({
-        success: false,
-        message: "Insufficient permissions",
-      });
+    await ensureRolePolicies();
+
+    if (!permissions.some((permission) => can(req.user, permission))) {
+      return next(new ForbiddenError());
     }
 
     next();
@@ -74,43 +183,97 @@ export const requirePermission = (...permissions: Permission[]) => {
 };
 
 // Convenience middleware for common patterns
-export const requireAdmin = requireRole("admin");
-export const requireDriver = requireRole("driver", "admin");
+export const requireAdmin = requirePermission("admin:all");
+// Terminal queues are run by dispatchers; admins can always step in
+export const requireDispatcher = requirePermission("dispatch:queues", "admin:all");
+export const requireVehicleManager = requirePermission("manage:vehicles", "admin:all");
+// Driving operations need an approved driver profile whose license and franchise
+// haven't lapsed, even if the expiry job hasn't caught up yet
+export const requireDriver = async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return next(new UnauthorizedError());
+  }
+
+  if (req.user.role !== "driver") {
+    return next(new ForbiddenError());
+  }
+
+  try {
+    const now = new Date();
+    const approvedProfile = await prisma.driverProfile.findFirst({
+      where: {
+        userId: req.user.id,
+        status: "approved",
+        licenseExpiresAt: { gt: now },
+        franchiseExpiresAt: { gt: now },
+      },
+      select: { id: true },
+    });
+
+    if (!approvedProfile) {
+      return next(new ForbiddenError("Driver profile is not approved", "DRIVER_NOT_APPROVED"));
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
 export const requirePassenger = requireRole("passenger", "admin");
 
 // Service-level RBAC helpers
-export const checkPermission = (userRole: Role, permission: Permission): void => {
-  if (!rbac.hasPermission(userRole, permission)) {
-    throw new Error("Insufficient permissions");
+export const checkPermission = (actor: Actor, permission: Permission, resource?: PolicyResource): void => {
+  if (!can(actor, permission, resource)) {
+    throw new ForbiddenError();
   }
 };
 
 export const checkRole = (userRole: Role, allowedRoles: Role[]): void => {
   if (!rbac.isRoleAllowed(userRole, allowedRoles)) {
-    throw new Error("Insufficient permissions");
+    throw new ForbiddenError();
   }
 };
 
 // Service wrapper for admin operations
-export const requireAdminPermission = (userRole?: Role): void => {
-  if (!userRole) {
-    throw new Error("Authentication required");
+export const requireAdminPermission = (actor?: Actor): void => {
+  if (!actor) {
+    throw new UnauthorizedError();
+  }
+  checkPermission(actor, "admin:all");
+};
+
+// Service wrapper for queue dispatch operations
+export const requireDispatchPermission = (actor?: Actor): void => {
+  if (!actor) {
+    throw new UnauthorizedError();
+  }
+  if (!can(actor, "admin:all")) {
+    checkPermission(actor, "dispatch:queues");
+  }
+};
+
+// Service wrapper for vehicle operations; operators are limited to vehicles they own
+export const requireVehiclePermission = (actor?: Actor, resource?: PolicyResource): void => {
+  if (!actor) {
+    throw new UnauthorizedError();
+  }
+  if (!can(actor, "admin:all")) {
+    checkPermission(actor, "manage:vehicles", resource);
   }
-  checkRole(userRole, ["admin"]);
 };
 
 // Service wrapper for write operations
-export const requireWritePermission = (userRole?: Role): void => {
-  if (!userRole) {
-    throw new Error("Authentication required");
+export const requireWritePermission = (actor?: Actor, resource?: PolicyResource): void => {
+  if (!actor) {
+    throw new UnauthorizedError();
   }
-  checkPermission(userRole, "write:users");
+  checkPermission(actor, "write:users", resource);
 };
 
 // Service wrapper for delete operations
-export const requireDeletePermission = (userRole?: Role): void => {
-  if (!userRole) {
-    throw new Error("Authentication required");
+export const requireDeletePermission = (actor?: Actor, resource?: PolicyResource): void => {
+  if (!actor) {
+    throw new UnauthorizedError();
   }
-  checkPermission(userRole, "delete:users");
-};
\ No newline at end of file
+  checkPermission(actor, "delete:users", resource);
+};
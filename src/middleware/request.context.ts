@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import { RequestContext } from "../types";
+
+// Accept a caller-supplied id only if it is short and printable
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+// Tag every request with an id, echoed back in X-Request-Id, so logs and audit entries can be correlated
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get("X-Request-Id");
+  req.id = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+  res.setHeader("X-Request-Id", req.id);
+  next();
+};
+
+export const getRequestContext = (req: Request): RequestContext => ({
+  ip: req.ip,
+  userAgent: req.get("User-Agent"),
+  requestId: req.id,
+});
@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from "express";
+import Joi from "joi";
+import { ValidationErrorDetail } from "../types";
+import { ValidationError } from "../utils/errors";
+
+export interface ValidationSchemas {
+  body?: Joi.ObjectSchema;
+  query?: Joi.ObjectSchema;
+  params?: Joi.ObjectSchema;
+}
+
+const LOCATIONS = ["params", "query", "body"] as const;
+
+// Validate and coerce request input; unknown body keys are stripped so they never reach Prisma
+export const validate = (schemas: ValidationSchemas) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const errors: ValidationErrorDetail[] = [];
+
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const { error, value } = schema.validate(req[location] ?? {}, {
+        abortEarly: false,
+        convert: true,
+        stripUnknown: location === "body",
+        errors: { wrap: { label: false } },
+      });
+
+      if (error) {
+        errors.push(
+          ...error.details.map((detail) => ({
+            location,
+            field: detail.path.join("."),
+            message: detail.message,
+          }))
+        );
+      } else {
+        req[location] = value;
+      }
+    }
+
+    if (errors.length > 0) {
+      return next(new ValidationError(errors));
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,33 @@
+import express, { Request, Response, NextFunction } from "express";
+import auditService from "../services/audit.service";
+import { authenticate } from "../middleware/auth";
+import { requireAdmin } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { AuditLogQuery } from "../types";
+import { getAuditLogsSchema } from "../validators/audit.validator";
+
+const router = express.Router();
+
+router.get("/", authenticate, requireAdmin, validate(getAuditLogsSchema), getAuditLogs);
+
+// @route   GET /api/admin/audit-logs
+// @desc    Query the audit trail by actor, target, action and date range
+// @access  Private (admin:all)
+async function getAuditLogs(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await auditService.getAuditLogs(req.query as unknown as AuditLogQuery, req.user);
+
+    logInfo(`Successfully retrieved ${result.data.length} audit logs`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
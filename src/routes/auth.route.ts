@@ -1,63 +1,59 @@
-import express, { Request, Response } from "express";
+import express, { Request, Response, NextFunction } from "express";
 import authService from "../services/auth.service";
-import { logInfo, logError } from "../middleware/logger";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  emailSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+} from "../validators/auth.validator";
 
 const router = express.Router();
 
-router.post("/register", register);
-router.post("/login", login);
+router.post("/register", validate(registerSchema), register);
+router.post("/login", validate(loginSchema), login);
+router.post("/refresh", validate(refreshTokenSchema), refresh);
+router.post("/logout", validate(refreshTokenSchema), logout);
+router.post("/forgot-password", validate(emailSchema), forgotPassword);
+router.post("/reset-password", validate(resetPasswordSchema), resetPassword);
+router.post("/verify-email", validate(verifyEmailSchema), verifyEmail);
+router.post("/resend-verification", validate(emailSchema), resendVerification);
 
 // @route   POST /api/auth/register
 // @desc    Register a new user
 // @access  Public
-async function register(req: Request, res: Response) {
+async function register(req: Request, res: Response, next: NextFunction) {
   try {
     const { firstName, lastName, middleName, email, password, metadata } = req.body;
 
     const result = await authService.register({ firstName, lastName, middleName, email, password, metadata });
 
-    if (!result.success) {
-      logError(`Registration failed for: ${email}`, result.message, req);
-      return res.status(400).json({
-        success: false,
-        message: result.message,
-      });
-    }
-
     logInfo(`User registered successfully: ${email}`, req);
     res.status(201).json({
       success: true,
-      message: "User created successfully",
+      message: result.message,
       data: {
         user: result.user,
         token: result.token,
+        refreshToken: result.refreshToken,
       },
     });
   } catch (error) {
-    logError("Register error", error, req);
-    res.status(500).json({
-      success: false,
-      message: "Server error",
-    });
+    next(error);
   }
 }
 
 // @route   POST /api/auth/login
 // @desc    Login user
 // @access  Public
-async function login(req: Request, res: Response) {
+async function login(req: Request, res: Response, next: NextFunction) {
   try {
     const { email, password, role } = req.body;
 
-    const result = await authService.login(email, password, role);
-
-    if (!result.success) {
-      logError(`Login failed for: ${email}`, result.message, req);
-      return res.status(400).json({
-        success: false,
-        message: result.message,
-      });
-    }
+    const result = await authService.login(email, password, role, req.ip);
 
     logInfo(`User logged in successfully: ${email}`, req);
     res.status(200).json({
@@ -65,19 +61,134 @@ async function login(req: Request, res: Response) {
       message: result.message,
       data: {
         user: {
-          firstName: result.data?.user.firstName,
-          lastName: result.data?.user.lastName,
-          middleName: result.data?.user.middleName,
+          firstName: result.data.user.firstName,
+          lastName: result.data.user.lastName,
+          middleName: result.data.user.middleName,
         },
-        token: result.data?.token,
+        token: result.data.token,
+        refreshToken: result.data.refreshToken,
       },
     });
   } catch (error) {
-    logError("Login error", error, req);
-    res.status(500).json({
-      success: false,
-      message: "Server error",
+    next(error);
+  }
+}
+
+// @route   POST /api/auth/refresh
+// @desc    Rotate refresh token and issue a new access token
+// @access  Public
+async function refresh(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { refreshToken } = req.body;
+
+    const result = await authService.refresh(refreshToken);
+
+    logInfo(`Token refreshed for user: ${result.data.userId}`, req);
+    res.status(200).json({
+      success: true,
+      message: result.message,
+      data: {
+        token: result.data.token,
+        refreshToken: result.data.refreshToken,
+      },
     });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/auth/logout
+// @desc    Revoke the session of a refresh token
+// @access  Public
+async function logout(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { refreshToken } = req.body;
+
+    const result = await authService.logout(refreshToken);
+
+    logInfo(`User logged out: ${result.userId}`, req);
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/auth/forgot-password
+// @desc    Send a password reset link
+// @access  Public
+async function forgotPassword(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { email } = req.body;
+
+    const result = await authService.forgotPassword(email);
+
+    logInfo(`Password reset requested for: ${email}`, req);
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/auth/reset-password
+// @desc    Reset password with a reset token
+// @access  Public
+async function resetPassword(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { token, password } = req.body;
+
+    const result = await authService.resetPassword(token, password);
+
+    logInfo(`Password reset for user: ${result.userId}`, req);
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/auth/verify-email
+// @desc    Confirm email address with a verification token
+// @access  Public
+async function verifyEmail(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { token } = req.body;
+
+    const result = await authService.verifyEmail(token);
+
+    logInfo(`Email verified for user: ${result.userId}`, req);
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/auth/resend-verification
+// @desc    Send a new email verification link
+// @access  Public
+async function resendVerification(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { email } = req.body;
+
+    const result = await authService.resendVerification(email);
+
+    logInfo(`Verification email requested for: ${email}`, req);
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
   }
 }
 
@@ -0,0 +1,91 @@
+import express, { Request, Response, NextFunction } from "express";
+import driverService from "../services/driver.service";
+import { authenticate } from "../middleware/auth";
+import { requireAdmin } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { getRequestContext } from "../middleware/request.context";
+import { DriverProfileStatus } from "../types";
+import {
+  getDriverProfilesSchema,
+  driverUserIdSchema,
+  reviewDriverProfileSchema,
+} from "../validators/driver.validator";
+
+const router = express.Router();
+
+router.use(authenticate, requireAdmin);
+
+router.get("/", validate(getDriverProfilesSchema), getProfiles);
+router.get("/:id", validate(driverUserIdSchema), getProfileByUserId);
+router.post("/:id/review", validate(reviewDriverProfileSchema), reviewProfile);
+
+// @route   GET /api/admin/drivers
+// @desc    Get driver profiles, optionally by status
+// @access  Private (Admin)
+async function getProfiles(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { status, page, limit } = req.query;
+
+    const result = await driverService.getProfiles(
+      {
+        status: status as DriverProfileStatus | undefined,
+        page: page ? Number(page) : undefined,
+        limit: limit ? Number(limit) : undefined,
+      },
+      req.user
+    );
+
+    logInfo(`Successfully retrieved ${result.data.length} driver profiles`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/admin/drivers/:id
+// @desc    Get a driver's profile by user ID
+// @access  Private (Admin)
+async function getProfileByUserId(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await driverService.getProfileByUserId(id, req.user);
+
+    logInfo(`Successfully retrieved driver profile: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/admin/drivers/:id/review
+// @desc    Move a driver profile to under_review, approved or rejected
+// @access  Private (Admin)
+async function reviewProfile(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await driverService.reviewProfile(id, req.body, req.user, getRequestContext(req));
+
+    logInfo(`Successfully reviewed driver profile: ${id} -> ${req.body.status}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
@@ -0,0 +1,118 @@
+import express, { Request, Response, NextFunction } from "express";
+import driverService from "../services/driver.service";
+import locationService from "../services/location.service";
+import reviewService from "../services/review.service";
+import { authenticate, requireVerifiedEmail } from "../middleware/auth";
+import { requireDriver, requireRole } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { getRequestContext } from "../middleware/request.context";
+import { NearbyDriversQuery } from "../types";
+import { nearbyDriversSchema, submitDriverProfileSchema, updateDriverLocationSchema } from "../validators/driver.validator";
+import { driverReviewsSchema } from "../validators/review.validator";
+
+const router = express.Router();
+
+// Drivers manage their profile before approval, so these only need the driver role
+router.get("/me/profile", authenticate, requireRole("driver"), getOwnProfile);
+router.put("/me/profile", authenticate, requireRole("driver"), requireVerifiedEmail, validate(submitDriverProfileSchema), submitProfile);
+
+// Only approved drivers can appear on the map
+router.post("/me/location", authenticate, requireDriver, validate(updateDriverLocationSchema), updateLocation);
+router.get("/nearby", authenticate, validate(nearbyDriversSchema), getNearbyDrivers);
+router.get("/:id/reviews", authenticate, validate(driverReviewsSchema), getDriverReviews);
+
+// @route   GET /api/drivers/me/profile
+// @desc    Get the current driver's profile and review status
+// @access  Private (Driver)
+async function getOwnProfile(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await driverService.getOwnProfile(req.user!.id);
+
+    logInfo(`Successfully retrieved driver profile: ${req.user!.id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   PUT /api/drivers/me/profile
+// @desc    Submit or resubmit driver details for review
+// @access  Private (Driver)
+async function submitProfile(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await driverService.submitProfile(req.user!, req.body, getRequestContext(req));
+
+    logInfo(`Successfully submitted driver profile: ${req.user!.id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/drivers/me/location
+// @desc    Report the current driver's position and availability
+// @access  Private (Approved driver)
+async function updateLocation(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await locationService.updateLocation(req.user!.id, req.body);
+
+    logInfo(`Successfully updated driver location: ${req.user!.id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/drivers/nearby
+// @desc    List online drivers near a point, nearest first
+// @access  Private
+async function getNearbyDrivers(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await locationService.getNearbyDrivers(req.query as unknown as NearbyDriversQuery, req.user!);
+
+    logInfo(`Successfully retrieved ${result.data.length} nearby drivers`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/drivers/:id/reviews
+// @desc    Get a driver's rating and visible reviews, newest first
+// @access  Private
+async function getDriverReviews(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await reviewService.getDriverReviews(id, req.query);
+
+    logInfo(`Successfully retrieved ${result.data.reviews.length} reviews for driver: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
@@ -0,0 +1,62 @@
+import express, { Request, Response, NextFunction } from "express";
+import realtimeService from "../services/realtime.service";
+import tokenService from "../services/token.service";
+import { authenticate, authenticateStream } from "../middleware/auth";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { openEventStream } from "../lib/event.stream";
+import { EventStreamQuery } from "../types";
+import { eventStreamSchema } from "../validators/event.validator";
+
+const router = express.Router();
+
+router.get("/", authenticateStream, validate(eventStreamSchema), streamEvents);
+router.post("/token", authenticate, issueStreamToken);
+
+// @route   GET /api/events
+// @desc    Server-sent event stream for the requested topics
+// @access  Private
+async function streamEvents(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { topics, resumeToken } = req.query as unknown as EventStreamQuery;
+    const user = req.user!;
+
+    // Checked up front so a forbidden topic is an ordinary JSON error
+    await realtimeService.authorizeTopics(user, topics);
+
+    logInfo(`Opened event stream: ${user.id} (${topics.join(", ")})`, req);
+
+    await openEventStream(res, {
+      topics,
+      // EventSource sends the id of the last event it saw when it reconnects
+      resumeToken: req.get("Last-Event-ID") || resumeToken,
+      heartbeatSeconds: Number(process.env.REALTIME_HEARTBEAT_SECONDS) || 25,
+      recheck: async (current) => {
+        const actor = await realtimeService.checkConnection(user.id, user.sessionId);
+        return actor ? realtimeService.findDeniedTopics(actor, current) : null;
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/events/token
+// @desc    Issue a short-lived token for opening an event stream with EventSource
+// @access  Private
+async function issueStreamToken(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = tokenService.issueStreamToken(req.user!.id, req.user!.sessionId!);
+
+    logInfo(`Issued stream token: ${req.user!.id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
@@ -0,0 +1,94 @@
+import express, { Request, Response, NextFunction } from "express";
+import fareService from "../services/fare.service";
+import { authenticate } from "../middleware/auth";
+import { requireAdmin } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { getRequestContext } from "../middleware/request.context";
+import { createFareMatrixSchema, fareMatrixIdSchema } from "../validators/fare.validator";
+
+const router = express.Router();
+
+router.use(authenticate, requireAdmin);
+
+router.get("/", getAllMatrices);
+router.post("/", validate(createFareMatrixSchema), createMatrix);
+router.get("/:id", validate(fareMatrixIdSchema), getMatrixById);
+router.delete("/:id", validate(fareMatrixIdSchema), deleteMatrix);
+
+// @route   GET /api/admin/fares
+// @desc    Get all fare matrix versions
+// @access  Private (admin:all)
+async function getAllMatrices(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await fareService.getAllMatrices(req.user);
+
+    logInfo(`Successfully retrieved ${result.data.length} fare matrices`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/admin/fares/:id
+// @desc    Get a fare matrix version
+// @access  Private (admin:all)
+async function getMatrixById(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await fareService.getMatrixById(id, req.user);
+
+    logInfo(`Successfully retrieved fare matrix: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/admin/fares
+// @desc    Publish a new fare matrix version
+// @access  Private (admin:all)
+async function createMatrix(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await fareService.createMatrix(req.body, req.user, getRequestContext(req));
+
+    logInfo(`Successfully created fare matrix: v${result.data.version}`, req);
+    res.status(201).json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   DELETE /api/admin/fares/:id
+// @desc    Withdraw a fare matrix version that hasn't taken effect
+// @access  Private (admin:all)
+async function deleteMatrix(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await fareService.deleteMatrix(id, req.user, getRequestContext(req));
+
+    logInfo(`Successfully deleted fare matrix: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
@@ -0,0 +1,30 @@
+import express, { Request, Response, NextFunction } from "express";
+import fareService from "../services/fare.service";
+import { authenticate } from "../middleware/auth";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { quoteFareSchema } from "../validators/fare.validator";
+
+const router = express.Router();
+
+router.post("/quote", authenticate, validate(quoteFareSchema), quoteFare);
+
+// @route   POST /api/fares/quote
+// @desc    Quote a fare with an itemised breakdown
+// @access  Private
+async function quoteFare(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await fareService.quote(req.body);
+
+    logInfo(`Successfully quoted fare: ${result.data.total} (v${result.data.matrixVersion})`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
@@ -0,0 +1,150 @@
+import express, { Request, Response, NextFunction } from "express";
+import ledgerService from "../services/ledger.service";
+import { authenticate } from "../middleware/auth";
+import { requireAdmin } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { LedgerQuery } from "../types";
+import {
+  createLedgerEntrySchema,
+  driverBalanceSchema,
+  driverDailySummarySchema,
+  driverPeriodSummarySchema,
+  getLedgerSchema,
+  reverseLedgerEntrySchema,
+} from "../validators/ledger.validator";
+
+const router = express.Router();
+
+router.use(authenticate, requireAdmin);
+
+router.get("/", validate(getLedgerSchema), getEntries);
+router.post("/", validate(createLedgerEntrySchema), createEntry);
+router.post("/:id/reversal", validate(reverseLedgerEntrySchema), reverseEntry);
+router.get("/drivers/:id/balance", validate(driverBalanceSchema), getDriverBalance);
+router.get("/drivers/:id/summary/daily", validate(driverDailySummarySchema), getDriverDailySummary);
+router.get("/drivers/:id/summary", validate(driverPeriodSummarySchema), getDriverPeriodSummary);
+
+// @route   GET /api/admin/ledger
+// @desc    Get ledger entries of all or one driver, newest first
+// @access  Private (admin:all)
+async function getEntries(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await ledgerService.getEntries(req.query as unknown as LedgerQuery);
+
+    logInfo(`Successfully retrieved ${result.data.length} ledger entries`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/admin/ledger
+// @desc    Record a ledger entry for a driver; requires an Idempotency-Key header
+// @access  Private (admin:all)
+async function createEntry(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await ledgerService.createEntry(req.body, req.get("Idempotency-Key"), req.user);
+
+    if (result.replayed) res.set("Idempotent-Replayed", "true");
+
+    logInfo(`Successfully recorded ledger entry: ${result.data.id}`, req);
+    res.status(201).json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/admin/ledger/:id/reversal
+// @desc    Reverse a ledger entry; requires an Idempotency-Key header
+// @access  Private (admin:all)
+async function reverseEntry(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await ledgerService.reverseEntry(id, req.body.reason, req.get("Idempotency-Key"), req.user);
+
+    if (result.replayed) res.set("Idempotent-Replayed", "true");
+
+    logInfo(`Successfully reversed ledger entry: ${id}`, req);
+    res.status(201).json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/admin/ledger/drivers/:id/balance
+// @desc    Get a driver's all-time totals and outstanding boundary balance
+// @access  Private (admin:all)
+async function getDriverBalance(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await ledgerService.getBalance(id);
+
+    logInfo(`Successfully retrieved ledger balance: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/admin/ledger/drivers/:id/summary/daily
+// @desc    Get a driver's totals for one business day (default today)
+// @access  Private (admin:all)
+async function getDriverDailySummary(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await ledgerService.getDailySummary(id, req.query.date as string | undefined);
+
+    logInfo(`Successfully retrieved daily ledger summary for driver ${id}: ${result.data.date}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/admin/ledger/drivers/:id/summary
+// @desc    Get a driver's totals for a range of business days
+// @access  Private (admin:all)
+async function getDriverPeriodSummary(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+    const { from, to } = req.query as { from: string; to: string };
+
+    const result = await ledgerService.getPeriodSummary(id, from, to);
+
+    logInfo(`Successfully retrieved ledger summary for driver ${id}: ${from} to ${to}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
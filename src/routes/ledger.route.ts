@@ -0,0 +1,118 @@
+import express, { Request, Response, NextFunction } from "express";
+import ledgerService from "../services/ledger.service";
+import { authenticate, requireVerifiedEmail } from "../middleware/auth";
+import { requireRole } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { LedgerQuery } from "../types";
+import { dailySummarySchema, getOwnLedgerSchema, periodSummarySchema, recordFareSchema } from "../validators/ledger.validator";
+
+const router = express.Router();
+
+// Drivers keep access to their ledger even while their profile isn't approved
+router.use(authenticate, requireRole("driver"));
+
+router.get("/me", validate(getOwnLedgerSchema), getOwnEntries);
+router.post("/me/fares", requireVerifiedEmail, validate(recordFareSchema), recordFare);
+router.get("/me/balance", getOwnBalance);
+router.get("/me/summary/daily", validate(dailySummarySchema), getOwnDailySummary);
+router.get("/me/summary", validate(periodSummarySchema), getOwnPeriodSummary);
+
+// @route   GET /api/ledger/me
+// @desc    Get own ledger entries, newest first
+// @access  Private (Driver)
+async function getOwnEntries(req: Request, res: Response, next: NextFunction) {
+  try {
+    const query = req.query as unknown as LedgerQuery;
+
+    const result = await ledgerService.getEntries({ ...query, driverId: req.user!.id });
+
+    logInfo(`Successfully retrieved ${result.data.length} ledger entries`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/ledger/me/fares
+// @desc    Record cash collected from a fare; requires an Idempotency-Key header
+// @access  Private (Driver)
+async function recordFare(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await ledgerService.recordFare(req.user!, req.body, req.get("Idempotency-Key"));
+
+    if (result.replayed) res.set("Idempotent-Replayed", "true");
+
+    logInfo(`Successfully recorded fare: ${result.data.id}`, req);
+    res.status(201).json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/ledger/me/balance
+// @desc    Get own all-time totals and outstanding boundary balance
+// @access  Private (Driver)
+async function getOwnBalance(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await ledgerService.getBalance(req.user!.id);
+
+    logInfo(`Successfully retrieved ledger balance: ${req.user!.id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/ledger/me/summary/daily
+// @desc    Get own totals for one business day (default today)
+// @access  Private (Driver)
+async function getOwnDailySummary(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await ledgerService.getDailySummary(req.user!.id, req.query.date as string | undefined);
+
+    logInfo(`Successfully retrieved daily ledger summary: ${result.data.date}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/ledger/me/summary
+// @desc    Get own totals for a range of business days
+// @access  Private (Driver)
+async function getOwnPeriodSummary(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { from, to } = req.query as { from: string; to: string };
+
+    const result = await ledgerService.getPeriodSummary(req.user!.id, from, to);
+
+    logInfo(`Successfully retrieved ledger summary: ${from} to ${to}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
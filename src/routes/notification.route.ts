@@ -0,0 +1,132 @@
+import express, { Request, Response, NextFunction } from "express";
+import notificationService from "../services/notification.service";
+import { authenticate } from "../middleware/auth";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { NotificationQuery } from "../types";
+import { getNotificationsSchema, notificationIdSchema, updatePreferencesSchema } from "../validators/notification.validator";
+
+const router = express.Router();
+
+// Every route works on the current user's own inbox
+router.use(authenticate);
+
+router.get("/", validate(getNotificationsSchema), getNotifications);
+router.get("/unread-count", getUnreadCount);
+router.post("/read-all", markAllRead);
+router.get("/preferences", getPreferences);
+router.put("/preferences", validate(updatePreferencesSchema), updatePreferences);
+router.post("/:id/read", validate(notificationIdSchema), markRead);
+
+// @route   GET /api/notifications
+// @desc    Get own notifications, newest first
+// @access  Private
+async function getNotifications(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await notificationService.getNotifications(req.user!, req.query as unknown as NotificationQuery);
+
+    logInfo(`Successfully retrieved ${result.data.length} notifications`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/notifications/unread-count
+// @desc    Get the number of unread notifications
+// @access  Private
+async function getUnreadCount(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await notificationService.getUnreadCount(req.user!);
+
+    logInfo(`Successfully retrieved unread count: ${result.data.unread}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/notifications/read-all
+// @desc    Mark every notification as read
+// @access  Private
+async function markAllRead(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await notificationService.markAllRead(req.user!);
+
+    logInfo(`Successfully marked ${result.data.updated} notifications as read`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/notifications/:id/read
+// @desc    Mark a notification as read
+// @access  Private (Recipient)
+async function markRead(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await notificationService.markRead(req.user!, id);
+
+    logInfo(`Successfully marked notification as read: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/notifications/preferences
+// @desc    Get own notification channel preferences
+// @access  Private
+async function getPreferences(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await notificationService.getPreferences(req.user!);
+
+    logInfo(`Successfully retrieved notification preferences: ${req.user!.id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   PUT /api/notifications/preferences
+// @desc    Update own notification channel preferences
+// @access  Private
+async function updatePreferences(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await notificationService.updatePreferences(req.user!, req.body);
+
+    logInfo(`Successfully updated notification preferences: ${req.user!.id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
@@ -0,0 +1,50 @@
+import express, { Request, Response, NextFunction } from "express";
+import userService from "../services/user.service";
+import { authenticate } from "../middleware/auth";
+import { requireVehicleManager } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { extractFilters } from "../utils/query.filter";
+import { getOperatorDriversSchema } from "../validators/user.validator";
+
+const router = express.Router();
+
+router.get("/me/drivers", authenticate, requireVehicleManager, validate(getOperatorDriversSchema), getOwnDrivers);
+
+// @route   GET /api/operators/me/drivers
+// @desc    Get the drivers assigned to the operator's vehicles, with the GET /api/user query params;
+//          admins pass operatorId
+// @access  Private (manage:vehicles)
+async function getOwnDrivers(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { page, limit, sort, order, fields, query, after, before, count, operatorId } = req.query;
+
+    const params = {
+      page: page ? Number(page) : undefined,
+      limit: limit ? Number(limit) : undefined,
+      sort: sort as string,
+      order: order as "asc" | "desc",
+      fields: fields as string,
+      query: query as string,
+      filters: extractFilters(req.query),
+      after: after as string,
+      before: before as string,
+      count: count as unknown as boolean | undefined,
+      operatorId: operatorId as string | undefined,
+    };
+
+    const result = await userService.getOperatorDrivers(params, req.user!);
+
+    logInfo(`Successfully retrieved ${result.data.length} operator drivers`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
@@ -0,0 +1,78 @@
+import express, { Request, Response, NextFunction } from "express";
+import reviewService from "../services/review.service";
+import { authenticate } from "../middleware/auth";
+import { requireAdmin } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { getRequestContext } from "../middleware/request.context";
+import { ReviewQuery } from "../types";
+import { getReviewsSchema, hideReviewSchema, reviewIdSchema } from "../validators/review.validator";
+
+const router = express.Router();
+
+router.use(authenticate, requireAdmin);
+
+router.get("/", validate(getReviewsSchema), getReviews);
+router.post("/:id/hide", validate(hideReviewSchema), hideReview);
+router.post("/:id/unhide", validate(reviewIdSchema), unhideReview);
+
+// @route   GET /api/admin/reviews
+// @desc    Get reviews for moderation, including hidden ones
+// @access  Private (admin:all)
+async function getReviews(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await reviewService.getReviews(req.query as unknown as ReviewQuery, req.user);
+
+    logInfo(`Successfully retrieved ${result.data.length} reviews`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/admin/reviews/:id/hide
+// @desc    Hide an abusive review and drop it from the driver's rating
+// @access  Private (admin:all)
+async function hideReview(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await reviewService.hideReview(id, req.body.reason, req.user, getRequestContext(req));
+
+    logInfo(`Successfully hid review: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/admin/reviews/:id/unhide
+// @desc    Make a hidden review visible again
+// @access  Private (admin:all)
+async function unhideReview(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await reviewService.unhideReview(id, req.user, getRequestContext(req));
+
+    logInfo(`Successfully unhid review: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
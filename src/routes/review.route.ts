@@ -0,0 +1,52 @@
+import express, { Request, Response, NextFunction } from "express";
+import reviewService from "../services/review.service";
+import { authenticate, requireVerifiedEmail } from "../middleware/auth";
+import { requirePassenger } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { createReviewSchema, updateReviewSchema } from "../validators/review.validator";
+
+const router = express.Router();
+
+router.post("/", authenticate, requireVerifiedEmail, requirePassenger, validate(createReviewSchema), createReview);
+router.patch("/:id", authenticate, requireVerifiedEmail, validate(updateReviewSchema), updateReview);
+
+// @route   POST /api/reviews
+// @desc    Review the driver of a completed ride
+// @access  Private (Passenger of the ride)
+async function createReview(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await reviewService.createReview(req.user!, req.body);
+
+    logInfo(`Successfully created review: ${result.data.id}`, req);
+    res.status(201).json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   PATCH /api/reviews/:id
+// @desc    Edit own review within the edit window
+// @access  Private (Reviewer)
+async function updateReview(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await reviewService.updateReview(id, req.user!, req.body);
+
+    logInfo(`Successfully updated review: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
@@ -0,0 +1,211 @@
+import express, { Request, Response, NextFunction } from "express";
+import rideService from "../services/ride.service";
+import { authenticate, requireVerifiedEmail } from "../middleware/auth";
+import { requireDriver, requirePassenger } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { RideHistoryQuery } from "../types";
+import {
+  requestRideSchema,
+  rideHistorySchema,
+  availableRidesSchema,
+  rideIdSchema,
+  completeRideSchema,
+  cancelRideSchema,
+} from "../validators/ride.validator";
+
+const router = express.Router();
+
+// Passenger routes
+router.post("/", authenticate, requireVerifiedEmail, requirePassenger, validate(requestRideSchema), requestRide);
+router.get("/history", authenticate, validate(rideHistorySchema), getHistory);
+
+// Driver routes
+router.get("/available", authenticate, requireDriver, validate(availableRidesSchema), getAvailableRides);
+router.post("/:id/accept", authenticate, requireDriver, validate(rideIdSchema), acceptRide);
+router.post("/:id/arrive", authenticate, requireDriver, validate(rideIdSchema), arriveRide);
+router.post("/:id/start", authenticate, requireDriver, validate(rideIdSchema), startRide);
+router.post("/:id/complete", authenticate, requireDriver, validate(completeRideSchema), completeRide);
+
+// Any party to the ride; the service applies per-role rules
+router.get("/:id", authenticate, validate(rideIdSchema), getRide);
+router.post("/:id/cancel", authenticate, validate(cancelRideSchema), cancelRide);
+
+// @route   POST /api/rides
+// @desc    Request a ride
+// @access  Private (Passenger)
+async function requestRide(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await rideService.requestRide(req.user!, req.body);
+
+    logInfo(`Successfully requested ride: ${result.data.id}`, req);
+    res.status(201).json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/rides/history
+// @desc    Get the current user's rides, as passenger or as driver
+// @access  Private
+async function getHistory(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await rideService.getHistory(req.user!, req.query as unknown as RideHistoryQuery);
+
+    logInfo(`Successfully retrieved ${result.data.length} rides`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/rides/available
+// @desc    Get open ride requests
+// @access  Private (Approved driver)
+async function getAvailableRides(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { limit } = req.query;
+
+    const result = await rideService.getAvailableRides(limit ? Number(limit) : undefined);
+
+    logInfo(`Successfully retrieved ${result.data.length} available rides`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/rides/:id
+// @desc    Get a ride the current user is part of
+// @access  Private
+async function getRide(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await rideService.getRide(id, req.user!);
+
+    logInfo(`Successfully retrieved ride: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/rides/:id/accept
+// @desc    Accept a requested ride
+// @access  Private (Approved driver)
+async function acceptRide(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await rideService.acceptRide(id, req.user!);
+
+    logInfo(`Successfully accepted ride: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/rides/:id/arrive
+// @desc    Record arrival at the pickup point
+// @access  Private (Assigned driver)
+async function arriveRide(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await rideService.arriveRide(id, req.user!);
+
+    logInfo(`Successfully recorded arrival for ride: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/rides/:id/start
+// @desc    Start the trip
+// @access  Private (Assigned driver)
+async function startRide(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await rideService.startRide(id, req.user!);
+
+    logInfo(`Successfully started ride: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/rides/:id/complete
+// @desc    Complete the trip, optionally recording the fare collected
+// @access  Private (Assigned driver)
+async function completeRide(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await rideService.completeRide(id, req.user!, req.body.fare);
+
+    logInfo(`Successfully completed ride: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/rides/:id/cancel
+// @desc    Cancel a ride (passenger, assigned driver or admin)
+// @access  Private
+async function cancelRide(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await rideService.cancelRide(id, req.user!, req.body.reason);
+
+    logInfo(`Successfully cancelled ride: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
@@ -0,0 +1,115 @@
+import express, { Request, Response, NextFunction } from "express";
+import roleService from "../services/role.service";
+import { authenticate } from "../middleware/auth";
+import { requireAdmin } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { getRequestContext } from "../middleware/request.context";
+import { createRoleSchema, updateRoleSchema, roleIdSchema } from "../validators/role.validator";
+
+const router = express.Router();
+
+router.use(authenticate, requireAdmin);
+
+router.get("/", getAllRoles);
+router.post("/", validate(createRoleSchema), createRole);
+router.get("/:id", validate(roleIdSchema), getRoleById);
+router.patch("/:id", validate(updateRoleSchema), updateRole);
+router.delete("/:id", validate(roleIdSchema), deleteRole);
+
+// @route   GET /api/admin/roles
+// @desc    Get all roles
+// @access  Private (admin:all)
+async function getAllRoles(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await roleService.getAllRoles(req.user);
+
+    logInfo(`Successfully retrieved ${result.data.length} roles`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/admin/roles/:id
+// @desc    Get role by ID
+// @access  Private (admin:all)
+async function getRoleById(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await roleService.getRoleById(id, req.user);
+
+    logInfo(`Successfully retrieved role: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/admin/roles
+// @desc    Create role
+// @access  Private (admin:all)
+async function createRole(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await roleService.createRole(req.body, req.user, getRequestContext(req));
+
+    logInfo(`Successfully created role: ${req.body.name}`, req);
+    res.status(201).json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   PATCH /api/admin/roles/:id
+// @desc    Update role description or permissions
+// @access  Private (admin:all)
+async function updateRole(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await roleService.updateRole(id, req.body, req.user, getRequestContext(req));
+
+    logInfo(`Successfully updated role: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   DELETE /api/admin/roles/:id
+// @desc    Delete role
+// @access  Private (admin:all)
+async function deleteRole(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await roleService.deleteRole(id, req.user, getRequestContext(req));
+
+    logInfo(`Successfully deleted role: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
@@ -0,0 +1,74 @@
+import express, { Request, Response, NextFunction } from "express";
+import queueService from "../services/queue.service";
+import { authenticate } from "../middleware/auth";
+import { requireAdmin } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { getRequestContext } from "../middleware/request.context";
+import { createTerminalSchema, updateTerminalSchema } from "../validators/terminal.validator";
+
+const router = express.Router();
+
+router.use(authenticate, requireAdmin);
+
+router.get("/", getAllTerminals);
+router.post("/", validate(createTerminalSchema), createTerminal);
+router.patch("/:id", validate(updateTerminalSchema), updateTerminal);
+
+// @route   GET /api/admin/terminals
+// @desc    Get all terminals, including closed ones
+// @access  Private (admin:all)
+async function getAllTerminals(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await queueService.getAllTerminals(req.user);
+
+    logInfo(`Successfully retrieved ${result.data.length} terminals`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/admin/terminals
+// @desc    Create a terminal
+// @access  Private (admin:all)
+async function createTerminal(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await queueService.createTerminal(req.body, req.user, getRequestContext(req));
+
+    logInfo(`Successfully created terminal: ${result.data.id}`, req);
+    res.status(201).json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   PATCH /api/admin/terminals/:id
+// @desc    Update or close a terminal; closing it empties its queue
+// @access  Private (admin:all)
+async function updateTerminal(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await queueService.updateTerminal(id, req.body, req.user, getRequestContext(req));
+
+    logInfo(`Successfully updated terminal: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
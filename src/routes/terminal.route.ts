@@ -0,0 +1,177 @@
+import express, { Request, Response, NextFunction } from "express";
+import queueService from "../services/queue.service";
+import { authenticate } from "../middleware/auth";
+import { requireDispatcher, requireDriver, requireRole } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { getRequestContext } from "../middleware/request.context";
+import { queueEntryParamsSchema, reorderQueueSchema, terminalIdSchema } from "../validators/terminal.validator";
+
+const router = express.Router();
+
+router.get("/", authenticate, getTerminals);
+
+// Driver routes; drivers whose approval lapsed can still see and leave their entry
+router.get("/me/queue", authenticate, requireRole("driver"), getOwnEntry);
+router.delete("/me/queue", authenticate, requireRole("driver"), checkOut);
+router.post("/:id/queue", authenticate, requireDriver, validate(terminalIdSchema), checkIn);
+
+// Dispatcher routes
+router.get("/:id/queue", authenticate, requireDispatcher, validate(terminalIdSchema), getQueue);
+router.put("/:id/queue", authenticate, requireDispatcher, validate(reorderQueueSchema), reorderQueue);
+router.delete("/:id/queue/:entryId", authenticate, requireDispatcher, validate(queueEntryParamsSchema), removeEntry);
+router.post("/:id/dispatch", authenticate, requireDispatcher, validate(terminalIdSchema), dispatchNext);
+
+// @route   GET /api/terminals
+// @desc    Get open terminals and how many drivers are waiting at each
+// @access  Private
+async function getTerminals(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await queueService.getTerminals();
+
+    logInfo(`Successfully retrieved ${result.data.length} terminals`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/terminals/me/queue
+// @desc    Get the current driver's queue entry and position
+// @access  Private (Driver)
+async function getOwnEntry(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await queueService.getOwnEntry(req.user!);
+
+    logInfo(`Successfully retrieved queue entry: ${req.user!.id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/terminals/:id/queue
+// @desc    Check in to a terminal queue
+// @access  Private (Approved driver)
+async function checkIn(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await queueService.checkIn(id, req.user!);
+
+    logInfo(`Successfully checked in to terminal ${id}: ${req.user!.id}`, req);
+    res.status(201).json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   DELETE /api/terminals/me/queue
+// @desc    Leave the queue the current driver is in
+// @access  Private (Driver)
+async function checkOut(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await queueService.checkOut(req.user!);
+
+    logInfo(`Successfully checked out of queue: ${req.user!.id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/terminals/:id/queue
+// @desc    Get a terminal's queue in order
+// @access  Private (dispatch:queues or admin:all)
+async function getQueue(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await queueService.getQueue(id, req.user);
+
+    logInfo(`Successfully retrieved queue for terminal: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   PUT /api/terminals/:id/queue
+// @desc    Reorder a terminal's queue
+// @access  Private (dispatch:queues or admin:all)
+async function reorderQueue(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await queueService.reorderQueue(id, req.body.entryIds, req.user, getRequestContext(req));
+
+    logInfo(`Successfully reordered queue for terminal: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   DELETE /api/terminals/:id/queue/:entryId
+// @desc    Remove a driver from a terminal's queue
+// @access  Private (dispatch:queues or admin:all)
+async function removeEntry(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id, entryId } = req.params;
+
+    const result = await queueService.removeEntry(id, entryId, req.user, getRequestContext(req));
+
+    logInfo(`Successfully removed queue entry ${entryId} from terminal: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/terminals/:id/dispatch
+// @desc    Take the next driver in line for a passenger
+// @access  Private (dispatch:queues or admin:all)
+async function dispatchNext(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await queueService.dispatchNext(id, req.user, getRequestContext(req));
+
+    logInfo(`Successfully dispatched driver ${result.data.driver?.id} from terminal: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
@@ -1,69 +1,47 @@
-import express, { Request, Response } from "express";
+import express, { Request, Response, NextFunction } from "express";
 import userService from "../services/user.service";
+import loginAttemptService from "../services/login.attempt.service";
 import { authenticate } from "../middleware/auth";
-import { requireAdmin, requireWritePermission, requireDeletePermission } from "../middleware/rbac";
-import { logInfo, logError } from "../middleware/logger";
+import { requireAdmin, requirePermission } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { extractFilters } from "../utils/query.filter";
+import { validate } from "../middleware/validate";
+import { getRequestContext } from "../middleware/request.context";
+import {
+  getAllUsersSchema,
+  getUserByIdSchema,
+  createUserSchema,
+  updateUserSchema,
+  userIdSchema,
+  getDeletedUsersSchema,
+  updateProfileSchema,
+  changePasswordSchema,
+  deactivateAccountSchema,
+} from "../validators/user.validator";
 
 const router = express.Router();
 
-router.get("/", authenticate, getAllUsers);
-router.post("/admin", authenticate, requireAdmin, createUserAdmin);
-router.get("/:id", authenticate, getUserById);
-router.patch("/:id", authenticate, requireWritePermission, updateUser);
-router.put("/:id", authenticate, requireDeletePermission, deleteUser);
+router.get("/", authenticate, validate(getAllUsersSchema), getAllUsers);
+// Self-service routes must be registered before the /:id routes
+router.get("/me", authenticate, getProfile);
+router.patch("/me", authenticate, validate(updateProfileSchema), updateProfile);
+router.post("/me/password", authenticate, validate(changePasswordSchema), changePassword);
+router.delete("/me", authenticate, validate(deactivateAccountSchema), deactivateAccount);
+router.post("/admin", authenticate, requireAdmin, validate(createUserSchema), createUserAdmin);
+router.get("/deleted", authenticate, requireAdmin, validate(getDeletedUsersSchema), getDeletedUsers);
+router.get("/:id", authenticate, validate(getUserByIdSchema), getUserById);
+router.patch("/:id", authenticate, requirePermission("write:users"), validate(updateUserSchema), updateUser);
+router.put("/:id", authenticate, requirePermission("delete:users"), validate(userIdSchema), deleteUser);
+router.post("/:id/unlock", authenticate, requireAdmin, validate(userIdSchema), unlockUser);
+router.post("/:id/restore", authenticate, requireAdmin, validate(userIdSchema), restoreUser);
+router.delete("/:id/purge", authenticate, requireAdmin, validate(userIdSchema), purgeUser);
 
 // @route   GET /api/user
 // @desc    Get all users
 // @access  Public
-async function getAllUsers(req: Request, res: Response) {
+async function getAllUsers(req: Request, res: Response, next: NextFunction) {
   try {
-    const { page, limit, sort, order, fields, query } = req.query;
-
-    // Validate query parameters
-    if (page && (isNaN(Number(page)) || Number(page) < 1)) {
-      logError("Invalid page parameter", `Page: ${page}`, req);
-      return res.status(400).json({
-        success: false,
-        message: "Invalid page parameter",
-      });
-    }
-
-    if (limit && (isNaN(Number(limit)) || Number(limit) < 1)) {
-      logError("Invalid limit parameter", `Limit: ${limit}`, req);
-      return res.status(400).json({
-        success: false,
-        message: "Invalid limit parameter",
-      });
-    }
-
-    if (order && !["asc", "desc"].includes(order as string)) {
-      logError("Invalid order parameter", `Order: ${order}`, req);
-      return res.status(400).json({
-        success: false,
-        message: "Order must be 'asc' or 'desc'",
-      });
-    }
-
-    if (fields && typeof fields !== "string") {
-      logError("Invalid fields parameter", `Fields: ${fields}`, req);
-      return res.status(400).json({
-        success: false,
-        message: "Fields must be a string",
-      });
-    }
-
-    // Build dynamic filters from query parameters (format: filter_fieldName)
-    const filters: Record<string, any> = {};
-
-    Object.keys(req.query).forEach((key) => {
-      if (key.startsWith("filter_")) {
-        const fieldName = key.replace("filter_", "");
-        const value = req.query[key];
-        if (value && typeof value === "string") {
-          filters[fieldName] = value;
-        }
-      }
-    });
+    const { page, limit, sort, order, fields, query, after, before, count } = req.query;
 
     const params = {
       page: page ? Number(page) : undefined,
@@ -72,20 +50,16 @@ async function getAllUsers(req: Request, res: Response) {
       order: order as "asc" | "desc",
       fields: fields as string,
       query: query as string,
-      filters: Object.keys(filters).length > 0 ? filters : undefined,
+      // Filters come from filter_fieldName or filter_fieldName[operator] params
+      filters: extractFilters(req.query),
+      after: after as string,
+      before: before as string,
+      count: count as unknown as boolean | undefined,
     };
 
-    const result = await userService.getAllUsers(params);
-
-    if (!result.success) {
-      logError("Failed to fetch users", result.message, req);
-      return res.status(500).json({
-        success: false,
-        message: result.message,
-      });
-    }
+    const result = await userService.getAllUsers(params, req.user!);
 
-    logInfo(`Successfully retrieved ${result.data?.length || 0} users`, req);
+    logInfo(`Successfully retrieved ${result.data.length} users`, req);
     res.json({
       success: true,
       message: result.message,
@@ -93,47 +67,97 @@ async function getAllUsers(req: Request, res: Response) {
       pagination: result.pagination,
     });
   } catch (error) {
-    logError("Get users error", error, req);
-    res.status(500).json({
-      success: false,
-      message: "Server error",
+    next(error);
+  }
+}
+
+// @route   GET /api/user/me
+// @desc    Get the current user's profile
+// @access  Private
+async function getProfile(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await userService.getProfile(req.user!.id);
+
+    logInfo(`Successfully retrieved profile: ${req.user!.id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   PATCH /api/user/me
+// @desc    Update the current user's profile
+// @access  Private
+async function updateProfile(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await userService.updateProfile(req.user!.id, req.body, getRequestContext(req));
+
+    logInfo(`Successfully updated profile: ${req.user!.id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/user/me/password
+// @desc    Change the current user's password
+// @access  Private
+async function changePassword(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    const result = await userService.changePassword(
+      req.user!.id,
+      currentPassword,
+      newPassword,
+      req.user!.sessionId,
+      getRequestContext(req)
+    );
+
+    logInfo(`Successfully changed password: ${req.user!.id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   DELETE /api/user/me
+// @desc    Deactivate the current user's account
+// @access  Private
+async function deactivateAccount(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await userService.deactivateAccount(req.user!.id, req.body.password, getRequestContext(req));
+
+    logInfo(`Successfully deactivated account: ${req.user!.id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
     });
+  } catch (error) {
+    next(error);
   }
 }
 
 // @route   GET /api/user/:id
 // @desc    Get user by ID
 // @access  Public
-async function getUserById(req: Request, res: Response) {
+async function getUserById(req: Request, res: Response, next: NextFunction) {
   try {
     const { id } = req.params;
     const { fields } = req.query;
 
-    if (!id) {
-      logError("Missing user ID parameter", "ID is required", req);
-      return res.status(400).json({
-        success: false,
-        message: "User ID is required",
-      });
-    }
-
-    if (fields && typeof fields !== "string") {
-      logError("Invalid fields parameter", `Fields: ${fields}`, req);
-      return res.status(400).json({
-        success: false,
-        message: "Fields must be a string",
-      });
-    }
-
-    const result = await userService.getUserById(id, fields as string);
-
-    if (!result.success) {
-      logError(`User not found with ID: ${id}`, result.message, req);
-      return res.status(404).json({
-        success: false,
-        message: result.message,
-      });
-    }
+    const result = await userService.getUserById(id, fields as string, req.user!);
 
     logInfo(`Successfully retrieved user: ${id}`, req);
     res.json({
@@ -142,28 +166,16 @@ async function getUserById(req: Request, res: Response) {
       data: result.data,
     });
   } catch (error) {
-    logError("Get user error", error, req);
-    res.status(500).json({
-      success: false,
-      message: "Server error",
-    });
+    next(error);
   }
 }
 
 // @route   POST /api/user/admin
 // @desc    Create user (Admin only)
 // @access  Private (Admin)
-async function createUserAdmin(req: Request, res: Response) {
+async function createUserAdmin(req: Request, res: Response, next: NextFunction) {
   try {
-    const result = await userService.createUserAdmin(req.body, req.user?.role);
-
-    if (!result.success) {
-      logError("Failed to create user", result.message, req);
-      return res.status(400).json({
-        success: false,
-        message: result.message,
-      });
-    }
+    const result = await userService.createUserAdmin(req.body, req.user, getRequestContext(req));
 
     logInfo(`Successfully created user: ${req.body.email}`, req);
     res.status(201).json({
@@ -171,38 +183,21 @@ async function createUserAdmin(req: Request, res: Response) {
       message: result.message,
       data: result.user,
       token: result.token,
+      refreshToken: result.refreshToken,
     });
   } catch (error) {
-    logError("Create user error", error, req);
-    if (error instanceof Error && error.message === "Insufficient permissions") {
-      return res.status(403).json({
-        success: false,
-        message: "Insufficient permissions",
-      });
-    }
-    res.status(500).json({
-      success: false,
-      message: "Server error",
-    });
+    next(error);
   }
 }
 
 // @route   PATCH /api/user/:id
 // @desc    Update user
 // @access  Private
-async function updateUser(req: Request, res: Response) {
+async function updateUser(req: Request, res: Response, next: NextFunction) {
   try {
     const { id } = req.params;
 
-    const result = await userService.updateUser(id, req.body, req.user?.role);
-
-    if (!result.success) {
-      logError(`Failed to update user: ${id}`, result.message, req);
-      return res.status(404).json({
-        success: false,
-        message: result.message,
-      });
-    }
+    const result = await userService.updateUser(id, req.body, req.user, getRequestContext(req));
 
     logInfo(`Successfully updated user: ${id}`, req);
     res.json({
@@ -211,36 +206,18 @@ async function updateUser(req: Request, res: Response) {
       data: result.data,
     });
   } catch (error) {
-    logError("Update user error", error, req);
-    if (error instanceof Error && error.message === "Insufficient permissions") {
-      return res.status(403).json({
-        success: false,
-        message: "Insufficient permissions",
-      });
-    }
-    res.status(500).json({
-      success: false,
-      message: "Server error",
-    });
+    next(error);
   }
 }
 
 // @route   PUT /api/user/:id
 // @desc    Soft Delete user
 // @access  Private
-async function deleteUser(req: Request, res: Response) {
+async function deleteUser(req: Request, res: Response, next: NextFunction) {
   try {
     const { id } = req.params;
 
-    const result = await userService.deleteUser(id, req.user?.role);
-
-    if (!result.success) {
-      logError(`Failed to delete user: ${id}`, result.message, req);
-      return res.status(404).json({
-        success: false,
-        message: result.message,
-      });
-    }
+    const result = await userService.deleteUser(id, req.user, getRequestContext(req));
 
     logInfo(`Successfully deleted user: ${id}`, req);
     res.json({
@@ -248,17 +225,89 @@ async function deleteUser(req: Request, res: Response) {
       message: result.message,
     });
   } catch (error) {
-    logError("Delete user error", error, req);
-    if (error instanceof Error && error.message === "Insufficient permissions") {
-      return res.status(403).json({
-        success: false,
-        message: "Insufficient permissions",
-      });
-    }
-    res.status(500).json({
-      success: false,
-      message: "Server error",
+    next(error);
+  }
+}
+
+// @route   POST /api/user/:id/unlock
+// @desc    Clear failed login attempts and lockout for a user
+// @access  Private (Admin)
+async function unlockUser(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await loginAttemptService.unlockAccount(id, req.user, getRequestContext(req));
+
+    logInfo(`Successfully unlocked user: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
     });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/user/deleted
+// @desc    Get soft-deleted users
+// @access  Private (Admin)
+async function getDeletedUsers(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { page, limit } = req.query;
+
+    const result = await userService.getDeletedUsers(
+      { page: page ? Number(page) : undefined, limit: limit ? Number(limit) : undefined },
+      req.user
+    );
+
+    logInfo(`Successfully retrieved ${result.data.length} deleted users`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/user/:id/restore
+// @desc    Restore a soft-deleted user
+// @access  Private (Admin)
+async function restoreUser(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await userService.restoreUser(id, req.user, getRequestContext(req));
+
+    logInfo(`Successfully restored user: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   DELETE /api/user/:id/purge
+// @desc    Permanently delete a soft-deleted user
+// @access  Private (Admin)
+async function purgeUser(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await userService.purgeUser(id, req.user, getRequestContext(req));
+
+    logInfo(`Successfully purged user: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
   }
 }
 
@@ -0,0 +1,177 @@
+import express, { Request, Response, NextFunction } from "express";
+import vehicleService from "../services/vehicle.service";
+import { authenticate } from "../middleware/auth";
+import { requireVehicleManager } from "../middleware/rbac";
+import { logInfo } from "../middleware/logger";
+import { validate } from "../middleware/validate";
+import { getRequestContext } from "../middleware/request.context";
+import { extractFilters } from "../utils/query.filter";
+import {
+  getVehiclesSchema,
+  createVehicleSchema,
+  updateVehicleSchema,
+  vehicleIdSchema,
+  assignDriverSchema,
+  unassignDriverSchema,
+} from "../validators/vehicle.validator";
+
+const router = express.Router();
+
+// Operators manage their own vehicles; the service checks ownership of each vehicle
+router.use(authenticate, requireVehicleManager);
+
+router.get("/", validate(getVehiclesSchema), getVehicles);
+router.post("/", validate(createVehicleSchema), createVehicle);
+router.get("/:id", validate(vehicleIdSchema), getVehicleById);
+router.patch("/:id", validate(updateVehicleSchema), updateVehicle);
+router.get("/:id/assignments", validate(vehicleIdSchema), getAssignments);
+router.post("/:id/assignment", validate(assignDriverSchema), assignDriver);
+router.delete("/:id/assignment", validate(unassignDriverSchema), unassignDriver);
+
+// @route   GET /api/vehicles
+// @desc    Get vehicles with filtering, sorting and pagination
+// @access  Private (manage:vehicles or admin:all)
+async function getVehicles(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { page, limit, sort, order } = req.query;
+
+    const params = {
+      page: page ? Number(page) : undefined,
+      limit: limit ? Number(limit) : undefined,
+      sort: sort as string | undefined,
+      order: order as "asc" | "desc" | undefined,
+      filters: extractFilters(req.query),
+    };
+
+    const result = await vehicleService.getVehicles(params, req.user!);
+
+    logInfo(`Successfully retrieved ${result.data.length} vehicles`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/vehicles
+// @desc    Register a vehicle
+// @access  Private (manage:vehicles or admin:all)
+async function createVehicle(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await vehicleService.createVehicle(req.body, req.user!, getRequestContext(req));
+
+    logInfo(`Successfully created vehicle: ${result.data.id}`, req);
+    res.status(201).json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/vehicles/:id
+// @desc    Get a vehicle
+// @access  Private (Owning operator or admin:all)
+async function getVehicleById(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await vehicleService.getVehicleById(id, req.user!);
+
+    logInfo(`Successfully retrieved vehicle: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   PATCH /api/vehicles/:id
+// @desc    Update a vehicle or change its status
+// @access  Private (Owning operator or admin:all)
+async function updateVehicle(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await vehicleService.updateVehicle(id, req.body, req.user!, getRequestContext(req));
+
+    logInfo(`Successfully updated vehicle: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   GET /api/vehicles/:id/assignments
+// @desc    Get a vehicle's driver assignment history
+// @access  Private (Owning operator or admin:all)
+async function getAssignments(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await vehicleService.getAssignments(id, req.user!);
+
+    logInfo(`Successfully retrieved ${result.data.length} assignments for vehicle: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   POST /api/vehicles/:id/assignment
+// @desc    Assign a driver to a vehicle
+// @access  Private (Owning operator or admin:all)
+async function assignDriver(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await vehicleService.assignDriver(id, req.body.driverId, req.user!, getRequestContext(req));
+
+    logInfo(`Successfully assigned driver ${req.body.driverId} to vehicle: ${id}`, req);
+    res.status(201).json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// @route   DELETE /api/vehicles/:id/assignment
+// @desc    End a vehicle's current driver assignment
+// @access  Private (Owning operator or admin:all)
+async function unassignDriver(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const result = await vehicleService.unassignDriver(id, req.body.reason, req.user!, getRequestContext(req));
+
+    logInfo(`Successfully unassigned driver from vehicle: ${id}`, req);
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default router;
@@ -0,0 +1,105 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { logError } from "../middleware/logger";
+import { requireAdminPermission } from "../middleware/rbac";
+import { Actor, AuditAction, AuditEntry, AuditLogQuery } from "../types";
+import { diffRecords } from "../utils/audit.diff";
+import { buildCursorWhere, decodeCursor, encodeCursor } from "../utils/cursor";
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  "user.create",
+  "user.update",
+  "user.delete",
+  "user.restore",
+  "user.purge",
+  "user.anonymize",
+  "user.unlock",
+  "user.profile_update",
+  "user.password_change",
+  "user.deactivate",
+  "driver.submit",
+  "driver.review",
+  "fare.create",
+  "fare.delete",
+  "review.hide",
+  "review.unhide",
+  "terminal.create",
+  "terminal.update",
+  "queue.reorder",
+  "queue.remove",
+  "queue.dispatch",
+  "vehicle.create",
+  "vehicle.update",
+  "vehicle.assign",
+  "vehicle.unassign",
+  "role.create",
+  "role.update",
+  "role.delete",
+];
+
+const auditService = {
+  record,
+  getAuditLogs,
+};
+
+export default auditService;
+
+// Write an audit entry for a completed change. The change has already happened, so a
+// failed write is logged with the full entry rather than failing the request.
+async function record(entry: AuditEntry) {
+  const data = {
+    actorId: entry.actor?.id,
+    actorRole: entry.actor?.role,
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    changes: diffRecords(entry.before, entry.after) as Prisma.InputJsonValue,
+    ip: entry.context?.ip,
+    userAgent: entry.context?.userAgent,
+    requestId: entry.context?.requestId,
+  };
+
+  try {
+    await prisma.auditLog.create({ data });
+  } catch (error) {
+    logError(`Failed to write audit log: ${JSON.stringify(data)}`, error);
+  }
+}
+
+// Newest first, paged with an opaque createdAt cursor
+async function getAuditLogs(query: AuditLogQuery, actor?: Actor) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const limit = query.limit || 50;
+
+  const where: Prisma.AuditLogWhereInput = {
+    AND: [
+      query.actorId ? { actorId: query.actorId } : {},
+      query.targetId ? { targetId: query.targetId } : {},
+      query.action ? { action: query.action } : {},
+      query.from || query.to ? { createdAt: { gte: query.from, lte: query.to } } : {},
+      query.after ? buildCursorWhere("createdAt", "desc", decodeCursor(query.after, "createdAt"), "after") : {},
+    ],
+  };
+
+  const rows = await prisma.auditLog.findMany({
+    where,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+  });
+
+  const hasMore = rows.length > limit;
+  const data = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    success: true,
+    message: "Audit logs retrieved successfully",
+    data,
+    pagination: {
+      limit,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor("createdAt", data[data.length - 1]) : null,
+    },
+  };
+}
@@ -1,113 +1,316 @@
 import { prisma } from "../lib/prisma";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
+import crypto from "crypto";
+import tokenService, { hashToken } from "./token.service";
+import loginAttemptService from "./login.attempt.service";
+import notificationService from "./notification.service";
+import { mailer } from "../lib/mailer";
+import { EMAIL_VERIFICATION_POLICY } from "../middleware/auth";
+import { logError } from "../middleware/logger";
 import { CreateUserData } from "../types";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from "../utils/errors";
+
+const RESET_TOKEN_TTL_MINUTES = Number(process.env.RESET_TOKEN_TTL_MINUTES) || 30;
+const VERIFICATION_TOKEN_TTL_HOURS = Number(process.env.VERIFICATION_TOKEN_TTL_HOURS) || 24;
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync("dummy-password-for-timing", 10);
 
 const authService = {
   register,
   login,
+  refresh,
+  logout,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification,
 };
 
 export default authService;
 
 async function register(data: CreateUserData) {
-  try {
-    // Check if user already exists
-    const existingUser = await prisma.user.findUnique({
-      where: { email: data.email },
-    });
+  // Check if user already exists
+  const existingUser = await prisma.user.findUnique({
+    where: { email: data.email },
+  });
 
-    if (existingUser) {
-      return { success: false, message: "User already exists" };
-    }
-
-    // Hash password
-    const salt = await bcrypt.genSalt(10);
-    const hashedPassword = await bcrypt.hash(data.password, salt);
-
-    // Create user
-    const user = await prisma.user.create({
-      data: {
-        firstName: data.firstName,
-        lastName: data.lastName,
-        middleName: data.middleName,
-        email: data.email,
-        password: hashedPassword,
-        role: data.role,
-        status: data.status,
-        metadata: data.metadata,
-      },
-      select: {
-        id: true,
-        firstName: true,
-        lastName: true,
-        middleName: true,
-        email: true,
-        metadata: true,
-        createdAt: true,
-      },
-    });
+  if (existingUser) {
+    throw new ConflictError("User already exists");
+  }
+
+  // Hash password
+  const salt = await bcrypt.genSalt(10);
+  const hashedPassword = await bcrypt.hash(data.password, salt);
 
-    // Create JWT token
-    const token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || "", { expiresIn: "7d" });
+  // Create user
+  const user = await prisma.user.create({
+    data: {
+      firstName: data.firstName,
+      lastName: data.lastName,
+      middleName: data.middleName,
+      email: data.email,
+      password: hashedPassword,
+      role: data.role,
+      status: data.status,
+      metadata: data.metadata,
+      // Stored explicitly so accounts created before verification existed (unset) can be told apart
+      emailVerifiedAt: null,
+    },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      middleName: true,
+      email: true,
+      metadata: true,
+      emailVerifiedAt: true,
+      createdAt: true,
+    },
+  });
 
-    return { user, token, success: true, message: "User created successfully" };
+  // The account exists either way; a failed send can be retried through /resend-verification
+  try {
+    await sendVerificationEmail(user);
   } catch (error) {
-    console.error("Register error:", error);
-    return { success: false, message: "Server error" };
+    logError(`Failed to send verification email to user ${user.id}`, error);
   }
+
+  // Unverified accounts get no session when verification is required
+  if (EMAIL_VERIFICATION_POLICY === "required") {
+    return { user, success: true, message: "User created successfully. Please verify your email address" };
+  }
+
+  // Create access and refresh tokens
+  const { token, refreshToken } = await tokenService.issueTokens(user.id);
+
+  return { user, token, refreshToken, success: true, message: "User created successfully" };
 }
 
-async function login(email: string, password: string, role: string) {
+async function login(email: string, password: string, role: string, ip?: string) {
+  // Refuse locked accounts/IPs before touching credentials
+  const attempts = await loginAttemptService.getStatus(email, ip);
+  if (attempts.locked) {
+    throw new TooManyRequestsError("Too many failed login attempts. Please try again later");
+  }
+
+  await loginAttemptService.delay(attempts.failures);
+
+  // Check if user exists
+  const user = await prisma.user.findUnique({
+    where: { email },
+  });
+
+  // Compare against a dummy hash when the user is missing so timing does not reveal it
+  const isMatch = await bcrypt.compare(password, user?.password || DUMMY_PASSWORD_HASH);
+
+  // Deleted, inactive and banned accounts fail like a wrong password, so the response
+  // doesn't reveal their state and their failure counter keeps counting
+  if (!user || !isMatch || user.isDeleted || user.status !== "active") {
+    await loginAttemptService.recordFailure(email, ip);
+    throw new UnauthorizedError("Invalid credentials");
+  }
+
+  await loginAttemptService.recordSuccess(email);
+
+  // Check if user role matches the required role
+  if (user.role !== role) {
+    throw new ForbiddenError("Access denied: Invalid role for this login");
+  }
+
+  if (EMAIL_VERIFICATION_POLICY === "required" && !user.emailVerifiedAt) {
+    throw new ForbiddenError("Email address not verified", "EMAIL_NOT_VERIFIED");
+  }
+
+  // Create access and refresh tokens
+  const { token, refreshToken } = await tokenService.issueTokens(user.id);
+
+  return {
+    success: true,
+    message: "Login successful",
+    data: {
+      user: {
+        id: user.id,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        middleName: user.middleName,
+        email: user.email,
+        role: user.role,
+        emailVerified: !!user.emailVerifiedAt,
+        createdAt: user.createdAt,
+      },
+      token,
+      refreshToken,
+    },
+  };
+}
+
+async function refresh(refreshToken: string) {
+  return tokenService.rotateRefreshToken(refreshToken);
+}
+
+async function logout(refreshToken: string) {
+  return tokenService.revokeRefreshToken(refreshToken);
+}
+
+async function forgotPassword(email: string) {
+  // Same response whether or not the account exists, to avoid user enumeration
+  const response = {
+    success: true,
+    message: "If an account exists for this email, a password reset link has been sent",
+  };
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+  });
+
+  if (!user || user.isDeleted || user.status !== "active") return response;
+
+  // Only the most recent reset link stays valid
+  await prisma.passwordResetToken.updateMany({
+    where: { userId: user.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  const resetToken = crypto.randomBytes(32).toString("hex");
+  await prisma.passwordResetToken.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(resetToken),
+      expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+      // Stored explicitly so usedAt: null filters match
+      usedAt: null,
+    },
+  });
+
+  const resetUrl = `${process.env.FRONTEND_URL || "http://localhost:3000"}/reset-password?token=${resetToken}`;
+
+  // A failed send must look like any other request, or an outage would reveal which emails exist
   try {
-    // Check if user exists
-    const user = await prisma.user.findUnique({
-      where: { email },
+    await mailer.send({
+      to: user.email,
+      subject: "Reset your password",
+      text: `Hi ${user.firstName},\n\nUse the link below to reset your password. It expires in ${RESET_TOKEN_TTL_MINUTES} minutes.\n\n${resetUrl}\n\nIf you did not request this, you can ignore this email.`,
     });
+  } catch (error) {
+    logError(`Failed to send password reset email to user ${user.id}`, error);
+  }
 
-    if (!user) return { success: false, message: "Invalid credentials" };
-
-    // Check if user role matches the required role
-    if (user.role !== role) {
-      return {
-        success: false,
-        message: "Access denied: Invalid role for this login",
-      };
-    }
-
-    // Check password
-    const isMatch = await bcrypt.compare(password, user.password);
-    if (!isMatch) {
-      return {
-        success: false,
-        message: "Invalid credentials",
-      };
-    }
-
-    // Create JWT token
-    const token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || "", { expiresIn: "7d" });
-
-    return {
-      success: true,
-      message: "Login successful",
-      data: {
-        user: {
-          id: user.id,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          middleName: user.middleName,
-          email: user.email,
-          role: user.role,
-          createdAt: user.createdAt,
-        },
-        token,
-      },
-    };
+  return response;
+}
+
+async function resetPassword(token: string, password: string) {
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+    throw new BadRequestError("Invalid or expired reset token", "INVALID_TOKEN");
+  }
+
+  // Consume the token atomically so it can only be used once
+  const { count } = await prisma.passwordResetToken.updateMany({
+    where: { id: resetToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new BadRequestError("Invalid or expired reset token", "INVALID_TOKEN");
+  }
+
+  // Hash password
+  const salt = await bcrypt.genSalt(10);
+  const hashedPassword = await bcrypt.hash(password, salt);
+
+  await prisma.user.update({
+    where: { id: resetToken.userId },
+    data: { password: hashedPassword },
+  });
+
+  // Changing the password signs the user out everywhere
+  await tokenService.revokeAllForUser(resetToken.userId);
+
+  await notificationService.notify(resetToken.userId, "account.password_changed");
+
+  return { success: true, message: "Password reset successfully", userId: resetToken.userId };
+}
+
+// Issue a fresh verification link, invalidating any previous one
+async function sendVerificationEmail(user: { id: string; email: string; firstName: string }) {
+  await prisma.emailVerificationToken.updateMany({
+    where: { userId: user.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  const verificationToken = crypto.randomBytes(32).toString("hex");
+  await prisma.emailVerificationToken.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(verificationToken),
+      expiresAt: new Date(Date.now() + VERIFICATION_TOKEN_TTL_HOURS * 60 * 60 * 1000),
+      // Stored explicitly so usedAt: null filters match
+      usedAt: null,
+    },
+  });
+
+  const verifyUrl = `${process.env.FRONTEND_URL || "http://localhost:3000"}/verify-email?token=${verificationToken}`;
+  await mailer.send({
+    to: user.email,
+    subject: "Verify your email address",
+    text: `Hi ${user.firstName},\n\nPlease confirm your email address using the link below. It expires in ${VERIFICATION_TOKEN_TTL_HOURS} hours.\n\n${verifyUrl}`,
+  });
+}
+
+async function verifyEmail(token: string) {
+  const verificationToken = await prisma.emailVerificationToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!verificationToken || verificationToken.usedAt || verificationToken.expiresAt <= new Date()) {
+    throw new BadRequestError("Invalid or expired verification token", "INVALID_TOKEN");
+  }
+
+  // Consume the token atomically so it can only be used once
+  const { count } = await prisma.emailVerificationToken.updateMany({
+    where: { id: verificationToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new BadRequestError("Invalid or expired verification token", "INVALID_TOKEN");
+  }
+
+  await prisma.user.update({
+    where: { id: verificationToken.userId },
+    data: { emailVerifiedAt: new Date() },
+  });
+
+  return { success: true, message: "Email verified successfully", userId: verificationToken.userId };
+}
+
+async function resendVerification(email: string) {
+  // Same response whether or not the account exists, to avoid user enumeration
+  const response = {
+    success: true,
+    message: "If an unverified account exists for this email, a verification link has been sent",
+  };
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+  });
+
+  if (!user || user.isDeleted || user.emailVerifiedAt) return response;
+
+  // A failed send must look like any other request, or an outage would reveal which emails exist
+  try {
+    await sendVerificationEmail(user);
   } catch (error) {
-    console.error("Login error:", error);
-    return {
-      success: false,
-      message: "Server error",
-    };
+    logError(`Failed to send verification email to user ${user.id}`, error);
   }
+
+  return response;
 }
@@ -0,0 +1,223 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { requireAdminPermission } from "../middleware/rbac";
+import {
+  Actor,
+  DriverProfileStatus,
+  RequestContext,
+  ReviewDriverProfileData,
+  SubmitDriverProfileData,
+} from "../types";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from "../utils/errors";
+import auditService from "./audit.service";
+import queueService from "./queue.service";
+import notificationService from "./notification.service";
+
+const driverService = {
+  getOwnProfile,
+  submitProfile,
+  getProfiles,
+  getProfileByUserId,
+  reviewProfile,
+  expireProfiles,
+};
+
+export default driverService;
+
+// Statuses an admin may move a profile to from each status. Drivers move a
+// profile back to pending by resubmitting.
+const REVIEW_TRANSITIONS: Record<DriverProfileStatus, DriverProfileStatus[]> = {
+  pending: ["under_review", "approved", "rejected"],
+  under_review: ["approved", "rejected"],
+  approved: ["rejected"],
+  rejected: [],
+  expired: [],
+};
+
+const isPastExpiry = (profile: { licenseExpiresAt: Date; franchiseExpiresAt: Date }, now = new Date()) =>
+  profile.licenseExpiresAt <= now || profile.franchiseExpiresAt <= now;
+
+async function findProfile(userId: string) {
+  const profile = await prisma.driverProfile.findUnique({ where: { userId } });
+
+  if (!profile) {
+    throw new NotFoundError("Driver profile not found");
+  }
+
+  return profile;
+}
+
+async function getOwnProfile(userId: string) {
+  const profile = await findProfile(userId);
+
+  return {
+    success: true,
+    message: "Driver profile retrieved successfully",
+    data: profile,
+  };
+}
+
+// Create or replace the driver's details; any change sends the profile back for review
+async function submitProfile(actor: Actor, data: SubmitDriverProfileData, context?: RequestContext) {
+  if (actor.role !== "driver") {
+    throw new ForbiddenError("Only drivers can submit a driver profile");
+  }
+
+  if (isPastExpiry(data)) {
+    throw new BadRequestError("License and franchise must not be expired");
+  }
+
+  const existingProfile = await prisma.driverProfile.findUnique({ where: { userId: actor.id } });
+
+  if (existingProfile?.status === "under_review") {
+    throw new ConflictError("Driver profile is under review and cannot be changed");
+  }
+
+  const details = {
+    ...data,
+    documents: data.documents ?? [],
+    status: "pending" as const,
+    statusReason: null,
+    submittedAt: new Date(),
+    reviewedBy: null,
+    reviewedAt: null,
+  };
+
+  const profile = await prisma.driverProfile.upsert({
+    where: { userId: actor.id },
+    create: { userId: actor.id, ...details },
+    update: details,
+  });
+
+  await auditService.record({
+    action: "driver.submit",
+    actor,
+    targetType: "driver_profile",
+    targetId: profile.id,
+    before: existingProfile,
+    after: profile,
+    context,
+  });
+
+  return {
+    success: true,
+    message: "Driver profile submitted for review",
+    data: profile,
+  };
+}
+
+async function getProfiles(params: { status?: DriverProfileStatus; page?: number; limit?: number }, actor?: Actor) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const { status, page = 1, limit = 10 } = params;
+  const where: Prisma.DriverProfileWhereInput = status ? { status } : {};
+
+  const [profiles, total] = await Promise.all([
+    prisma.driverProfile.findMany({
+      where,
+      include: { user: { select: { id: true, firstName: true, lastName: true, email: true } } },
+      // Oldest submissions first, so the review queue is worked in order
+      orderBy: [{ submittedAt: "asc" }, { id: "asc" }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.driverProfile.count({ where }),
+  ]);
+
+  return {
+    success: true,
+    message: "Driver profiles retrieved successfully",
+    data: profiles,
+    pagination: {
+      total,
+      totalPages: Math.ceil(total / limit),
+      page,
+      limit,
+      hasMore: page * limit < total,
+    },
+  };
+}
+
+async function getProfileByUserId(userId: string, actor?: Actor) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const profile = await findProfile(userId);
+
+  return {
+    success: true,
+    message: "Driver profile retrieved successfully",
+    data: profile,
+  };
+}
+
+async function reviewProfile(userId: string, data: ReviewDriverProfileData, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const existingProfile = await findProfile(userId);
+
+  if (!REVIEW_TRANSITIONS[existingProfile.status].includes(data.status)) {
+    throw new ConflictError(`Cannot change a ${existingProfile.status} profile to ${data.status}`);
+  }
+
+  if (data.status === "approved" && isPastExpiry(existingProfile)) {
+    throw new BadRequestError("Cannot approve a profile with an expired license or franchise");
+  }
+
+  const profile = await prisma.driverProfile.update({
+    where: { userId },
+    data: {
+      status: data.status,
+      statusReason: data.reason ?? null,
+      reviewedBy: actor?.id,
+      reviewedAt: new Date(),
+    },
+  });
+
+  // Only approved drivers may wait at a terminal
+  if (profile.status !== "approved") {
+    await queueService.removeDriver(userId);
+  }
+
+  await auditService.record({
+    action: "driver.review",
+    actor,
+    targetType: "driver_profile",
+    targetId: profile.id,
+    before: { status: existingProfile.status, statusReason: existingProfile.statusReason },
+    after: { status: profile.status, statusReason: profile.statusReason },
+    context,
+  });
+
+  if (profile.status === "approved") {
+    await notificationService.notify(userId, "driver.approved");
+  } else if (profile.status === "rejected") {
+    await notificationService.notify(userId, "driver.rejected", { reason: profile.statusReason ?? "no reason was given" });
+  }
+
+  return {
+    success: true,
+    message: "Driver profile reviewed successfully",
+    data: profile,
+  };
+}
+
+// Mark approved profiles whose license or franchise has lapsed as expired
+async function expireProfiles() {
+  const now = new Date();
+
+  const { count } = await prisma.driverProfile.updateMany({
+    where: {
+      status: "approved",
+      OR: [{ licenseExpiresAt: { lte: now } }, { franchiseExpiresAt: { lte: now } }],
+    },
+    data: {
+      status: "expired",
+      statusReason: "License or franchise expired",
+    },
+  });
+
+  return count;
+}
@@ -0,0 +1,147 @@
+import { prisma } from "../lib/prisma";
+import { requireAdminPermission } from "../middleware/rbac";
+import { Actor, CreateFareMatrixData, FareQuoteData, RequestContext } from "../types";
+import { BadRequestError, NotFoundError } from "../utils/errors";
+import { calculateFare } from "../utils/fare.calculator";
+import { haversineKm } from "../utils/geo";
+import auditService from "./audit.service";
+
+const fareService = {
+  getActiveMatrix,
+  quote,
+  getAllMatrices,
+  getMatrixById,
+  createMatrix,
+  deleteMatrix,
+};
+
+export default fareService;
+
+// The version in force at a given time: the latest one that has taken effect
+async function getActiveMatrix(at = new Date()) {
+  const matrix = await prisma.fareMatrix.findFirst({
+    where: { effectiveFrom: { lte: at } },
+    orderBy: [{ effectiveFrom: "desc" }, { version: "desc" }],
+  });
+
+  if (!matrix) {
+    throw new NotFoundError("No fare matrix is in effect");
+  }
+
+  return matrix;
+}
+
+async function quote(data: FareQuoteData, at = new Date()) {
+  const matrix = await getActiveMatrix(at);
+  const distanceKm = haversineKm(data.pickup, data.dropoff);
+
+  const { items, subtotal, total } = calculateFare(matrix, {
+    distanceKm,
+    passengerCount: data.passengerCount ?? 1,
+    discount: data.discount,
+    at,
+  });
+
+  return {
+    success: true,
+    message: "Fare quoted successfully",
+    data: {
+      matrixVersion: matrix.version,
+      distanceKm: Number(distanceKm.toFixed(2)),
+      breakdown: items,
+      subtotal,
+      total,
+      currency: "PHP",
+      quotedAt: at,
+    },
+  };
+}
+
+async function getAllMatrices(actor?: Actor) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const matrices = await prisma.fareMatrix.findMany({ orderBy: { version: "desc" } });
+
+  return {
+    success: true,
+    message: "Fare matrices retrieved successfully",
+    data: matrices,
+  };
+}
+
+async function findMatrix(id: string) {
+  const matrix = await prisma.fareMatrix.findUnique({ where: { id } });
+
+  if (!matrix) {
+    throw new NotFoundError("Fare matrix not found");
+  }
+
+  return matrix;
+}
+
+async function getMatrixById(id: string, actor?: Actor) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const matrix = await findMatrix(id);
+
+  return {
+    success: true,
+    message: "Fare matrix retrieved successfully",
+    data: matrix,
+  };
+}
+
+// Publish a new version. Concurrent publishes race on the unique version and one gets a 409.
+async function createMatrix(data: CreateFareMatrixData, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const latest = await prisma.fareMatrix.findFirst({ orderBy: { version: "desc" }, select: { version: true } });
+
+  const matrix = await prisma.fareMatrix.create({
+    data: {
+      ...data,
+      version: (latest?.version ?? 0) + 1,
+      effectiveFrom: data.effectiveFrom ?? new Date(),
+      createdBy: actor?.id,
+    },
+  });
+
+  await auditService.record({
+    action: "fare.create",
+    actor,
+    targetType: "fare_matrix",
+    targetId: matrix.id,
+    after: matrix,
+    context,
+  });
+
+  return {
+    success: true,
+    message: "Fare matrix created successfully",
+    data: matrix,
+  };
+}
+
+// Only versions that haven't taken effect can be withdrawn; past quotes must stay explainable
+async function deleteMatrix(id: string, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const matrix = await findMatrix(id);
+
+  if (matrix.effectiveFrom <= new Date()) {
+    throw new BadRequestError("Fare matrices that have taken effect cannot be deleted");
+  }
+
+  await prisma.fareMatrix.delete({ where: { id } });
+
+  await auditService.record({ action: "fare.delete", actor, targetType: "fare_matrix", targetId: id, before: matrix, context });
+
+  return {
+    success: true,
+    message: "Fare matrix deleted successfully",
+  };
+}
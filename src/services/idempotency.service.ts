@@ -0,0 +1,121 @@
+import { Prisma } from "@prisma/client";
+import crypto from "crypto";
+import { prisma } from "../lib/prisma";
+import { logError } from "../middleware/logger";
+import { IdempotencyRequest } from "../types";
+import { ConflictError, UnprocessableEntityError } from "../utils/errors";
+import { hashToken } from "./token.service";
+
+const idempotencyService = {
+  begin,
+  complete,
+  release,
+};
+
+export default idempotencyService;
+
+// How long a response is kept for replays
+const ttlHours = () => Number(process.env.IDEMPOTENCY_TTL_HOURS) || 24;
+
+// How long a key stays locked if the request never finishes, e.g. the process died
+const PENDING_LOCK_MINUTES = 5;
+
+// Responses may carry tokens, so they are stored encrypted with a key only the client
+// holds; a database leak alone doesn't reveal them
+const deriveKey = (key: string, purpose: "request" | "response") => crypto.createHash("sha256").update(`${purpose}:${key}`).digest();
+
+const encrypt = (body: unknown, key: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", deriveKey(key, "response"), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(body), "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(".");
+};
+
+const decrypt = (stored: string, key: string) => {
+  const [iv, tag, ciphertext] = stored.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", deriveKey(key, "response"), iv);
+  decipher.setAuthTag(tag);
+  return JSON.parse(Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8"));
+};
+
+// Fingerprint of the payload, keyed so it can't be used to guess passwords in bodies
+const hashPayload = (key: string, payload: unknown) =>
+  crypto.createHmac("sha256", deriveKey(key, "request")).update(JSON.stringify(payload)).digest("hex");
+
+const recordWhere = (request: IdempotencyRequest) => ({
+  scope_method_path_keyHash: {
+    scope: request.scope,
+    method: request.method,
+    path: request.path,
+    keyHash: hashToken(request.key),
+  },
+});
+
+// Claim the key for a request. Returns the stored response if an earlier request with
+// the key already finished, or null if this request should run and report back
+// through complete or release.
+async function begin(request: IdempotencyRequest, payload: unknown) {
+  const requestHash = hashPayload(request.key, payload);
+
+  try {
+    await prisma.idempotencyRecord.create({
+      data: {
+        scope: request.scope,
+        method: request.method,
+        path: request.path,
+        keyHash: hashToken(request.key),
+        requestHash,
+        expiresAt: new Date(Date.now() + PENDING_LOCK_MINUTES * 60 * 1000),
+      },
+    });
+    return null;
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002")) {
+      throw error;
+    }
+  }
+
+  const record = await prisma.idempotencyRecord.findUnique({ where: recordWhere(request) });
+
+  if (record && record.requestHash !== requestHash) {
+    throw new UnprocessableEntityError("Idempotency-Key was already used for a different request", "IDEMPOTENCY_KEY_REUSED");
+  }
+
+  // Still running, or released between our insert and read
+  if (!record || record.responseStatus === null) {
+    throw new ConflictError("A request with this Idempotency-Key is still in progress, please retry");
+  }
+
+  return {
+    status: record.responseStatus,
+    body: record.responseBody === null ? undefined : decrypt(record.responseBody, request.key),
+  };
+}
+
+// Store the response for replays. The request has already been handled, so a failed
+// write is logged rather than failing it, and the key is released so that retries
+// aren't refused as in progress until the pending lock expires.
+async function complete(request: IdempotencyRequest, status: number, body: unknown) {
+  try {
+    await prisma.idempotencyRecord.updateMany({
+      where: recordWhere(request).scope_method_path_keyHash,
+      data: {
+        responseStatus: status,
+        responseBody: body === undefined ? null : encrypt(body, request.key),
+        expiresAt: new Date(Date.now() + ttlHours() * 60 * 60 * 1000),
+      },
+    });
+  } catch (error) {
+    logError(`Failed to store idempotent response for ${request.method} ${request.path}`, error);
+    await release(request);
+  }
+}
+
+// Free the key so the client can retry, e.g. after a validation error
+async function release(request: IdempotencyRequest) {
+  try {
+    await prisma.idempotencyRecord.deleteMany({ where: recordWhere(request).scope_method_path_keyHash });
+  } catch (error) {
+    logError(`Failed to release Idempotency-Key for ${request.method} ${request.path}`, error);
+  }
+}
@@ -0,0 +1,377 @@
+import { LedgerEntry, LedgerEntryType, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { IDEMPOTENCY_KEY_PATTERN } from "../middleware/idempotency";
+import { requireAdminPermission } from "../middleware/rbac";
+import { Actor, CreateLedgerEntryData, LedgerQuery } from "../types";
+import { BadRequestError, ConflictError, NotFoundError, UnprocessableEntityError } from "../utils/errors";
+import { buildCursorWhere, decodeCursor, encodeCursor } from "../utils/cursor";
+
+const ledgerService = {
+  recordFare,
+  createEntry,
+  reverseEntry,
+  getEntries,
+  getBalance,
+  getDailySummary,
+  getPeriodSummary,
+};
+
+export default ledgerService;
+
+type LedgerTotals = Record<"fareCollected" | "boundaryDue" | "boundaryPaid" | "adjustments", number>;
+
+const TOTAL_FIELDS: Record<LedgerEntryType, keyof LedgerTotals> = {
+  fare_collected: "fareCollected",
+  boundary_due: "boundaryDue",
+  boundary_paid: "boundaryPaid",
+  adjustment: "adjustments",
+};
+
+// Longest range a period summary may cover
+const MAX_PERIOD_DAYS = 366;
+
+// How many days back drivers may book their own fares, e.g. a late trip recorded after
+// midnight; anything older has to be entered by an admin
+const DRIVER_BACKDATE_DAYS = 1;
+
+// Offset of the local day used for business dates, e.g. 480 for Philippine time
+const utcOffsetMinutes = () => {
+  const offset = Number(process.env.LEDGER_UTC_OFFSET_MINUTES ?? 480);
+  return Number.isInteger(offset) ? offset : 480;
+};
+
+const businessDateOf = (at: Date) => new Date(at.getTime() + utcOffsetMinutes() * 60 * 1000).toISOString().slice(0, 10);
+
+// Drivers may only book fares on today or the previous business date
+const checkDriverBusinessDate = (businessDate: string) => {
+  const now = Date.now();
+  const earliest = businessDateOf(new Date(now - DRIVER_BACKDATE_DAYS * 24 * 60 * 60 * 1000));
+
+  if (businessDate < earliest || businessDate > businessDateOf(new Date(now))) {
+    throw new BadRequestError(
+      `businessDate must be between ${earliest} and today; ask an admin to record entries for other dates`
+    );
+  }
+};
+
+const emptyTotals = (): LedgerTotals => ({ fareCollected: 0, boundaryDue: 0, boundaryPaid: 0, adjustments: 0 });
+
+// What the driver owes their operator in boundary; negative means paid ahead
+const balanceOf = (totals: LedgerTotals) => totals.boundaryDue - totals.boundaryPaid + totals.adjustments;
+
+const addTotals = (totals: LedgerTotals, rows: { type: LedgerEntryType; _sum: { amount: number | null } }[]) => {
+  for (const row of rows) {
+    totals[TOTAL_FIELDS[row.type]] += row._sum.amount ?? 0;
+  }
+  return totals;
+};
+
+const checkIdempotencyKey = (key: string | undefined) => {
+  if (!key) {
+    throw new BadRequestError("Idempotency-Key header is required");
+  }
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    throw new BadRequestError("Idempotency-Key must be 1-255 printable characters");
+  }
+  return key;
+};
+
+// The entry an earlier request with this key created, if any. Reusing a key for a
+// different request is a client bug, so it is rejected rather than replayed.
+async function findReplay(actor: Actor, idempotencyKey: string, request: Partial<LedgerEntry>) {
+  const entry = await prisma.ledgerEntry.findUnique({
+    where: { createdBy_idempotencyKey: { createdBy: actor.id, idempotencyKey } },
+  });
+
+  if (!entry) return null;
+
+  const sameRequest = Object.entries(request).every(([field, value]) => entry[field as keyof LedgerEntry] === value);
+  if (!sameRequest) {
+    throw new UnprocessableEntityError("Idempotency-Key was already used for a different request", "IDEMPOTENCY_KEY_REUSED");
+  }
+
+  return entry;
+}
+
+// Append an entry once per idempotency key. A retry gets the entry the first attempt
+// created; when two attempts race, the unique key index lets only one of them insert.
+async function appendEntry(
+  actor: Actor,
+  idempotencyKey: string | undefined,
+  request: Partial<LedgerEntry>,
+  build: () => Promise<Omit<Prisma.LedgerEntryUncheckedCreateInput, "createdBy" | "idempotencyKey">>
+) {
+  const key = checkIdempotencyKey(idempotencyKey);
+
+  const replayed = await findReplay(actor, key, request);
+  if (replayed) return { entry: replayed, replayed: true };
+
+  const data = await build();
+
+  try {
+    const entry = await prisma.ledgerEntry.create({ data: { ...data, createdBy: actor.id, idempotencyKey: key } });
+    return { entry, replayed: false };
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      const raced = await findReplay(actor, key, request);
+      if (raced) return { entry: raced, replayed: true };
+    }
+    throw error;
+  }
+}
+
+// The operator and vehicle the driver is assigned to right now, if any
+async function findCurrentVehicle(driverId: string) {
+  const vehicle = await prisma.vehicle.findFirst({
+    where: { currentDriverId: driverId },
+    select: { id: true, operatorId: true },
+  });
+
+  return { operatorId: vehicle?.operatorId ?? null, vehicleId: vehicle?.id ?? null };
+}
+
+const toResult = ({ entry, replayed }: { entry: LedgerEntry; replayed: boolean }, message: string) => ({
+  success: true,
+  message,
+  data: entry,
+  replayed,
+});
+
+// A driver records cash they collected, optionally for one of their completed rides
+async function recordFare(actor: Actor, data: Omit<CreateLedgerEntryData, "driverId" | "type">, idempotencyKey?: string) {
+  const request = {
+    driverId: actor.id,
+    type: "fare_collected" as const,
+    amount: data.amount,
+    rideId: data.rideId ?? null,
+    note: data.note ?? null,
+    ...(data.businessDate ? { businessDate: data.businessDate } : {}),
+  };
+
+  const result = await appendEntry(actor, idempotencyKey, request, async () => {
+    // Checked for new entries only, so a retry after midnight still gets its replay
+    if (data.businessDate) {
+      checkDriverBusinessDate(data.businessDate);
+    }
+
+    if (data.rideId) {
+      const ride = await prisma.ride.findUnique({ where: { id: data.rideId }, select: { driverId: true, status: true } });
+
+      // Other drivers' rides look like they don't exist
+      if (!ride || ride.driverId !== actor.id) {
+        throw new NotFoundError("Ride not found");
+      }
+      if (ride.status !== "completed") {
+        throw new BadRequestError("Fares can only be recorded for completed rides");
+      }
+    }
+
+    return {
+      ...request,
+      ...(await findCurrentVehicle(actor.id)),
+      businessDate: data.businessDate ?? businessDateOf(new Date()),
+      reversesId: null,
+    };
+  });
+
+  return toResult(result, "Fare recorded successfully");
+}
+
+async function createEntry(data: CreateLedgerEntryData, idempotencyKey?: string, actor?: Actor) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const request = {
+    driverId: data.driverId,
+    type: data.type,
+    amount: data.amount,
+    rideId: data.rideId ?? null,
+    note: data.note ?? null,
+    ...(data.businessDate ? { businessDate: data.businessDate } : {}),
+  };
+
+  const result = await appendEntry(actor!, idempotencyKey, request, async () => {
+    const driver = await prisma.user.findUnique({
+      where: { id: data.driverId, isDeleted: false, role: "driver" },
+      select: { id: true },
+    });
+
+    if (!driver) {
+      throw new NotFoundError("Driver not found");
+    }
+
+    return {
+      ...request,
+      ...(await findCurrentVehicle(data.driverId)),
+      businessDate: data.businessDate ?? businessDateOf(new Date()),
+      reversesId: null,
+    };
+  });
+
+  return toResult(result, "Ledger entry recorded successfully");
+}
+
+// Cancel an entry by appending its negation. The reversal counts toward the original's
+// business date, so summaries of that day show the corrected figures.
+async function reverseEntry(id: string, reason: string, idempotencyKey?: string, actor?: Actor) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const result = await appendEntry(actor!, idempotencyKey, { reversesId: id, note: reason }, async () => {
+    const entry = await prisma.ledgerEntry.findUnique({ where: { id } });
+
+    if (!entry) {
+      throw new NotFoundError("Ledger entry not found");
+    }
+
+    if (entry.reversesId) {
+      throw new BadRequestError("Reversal entries cannot be reversed");
+    }
+
+    // The partial unique index on reversesId still rejects a concurrent second reversal
+    const existingReversal = await prisma.ledgerEntry.findFirst({ where: { reversesId: id }, select: { id: true } });
+
+    if (existingReversal) {
+      throw new ConflictError("Ledger entry has already been reversed");
+    }
+
+    return {
+      driverId: entry.driverId,
+      type: entry.type,
+      amount: -entry.amount,
+      businessDate: entry.businessDate,
+      operatorId: entry.operatorId,
+      vehicleId: entry.vehicleId,
+      rideId: entry.rideId,
+      note: reason,
+      reversesId: entry.id,
+    };
+  });
+
+  return toResult(result, "Ledger entry reversed successfully");
+}
+
+// Entries newest first. Drivers pass their own id; admins may list any driver's.
+async function getEntries(query: LedgerQuery) {
+  const limit = query.limit || 50;
+
+  const where: Prisma.LedgerEntryWhereInput = {
+    AND: [
+      query.driverId ? { driverId: query.driverId } : {},
+      query.type ? { type: query.type } : {},
+      query.from ? { businessDate: { gte: query.from } } : {},
+      query.to ? { businessDate: { lte: query.to } } : {},
+      query.after ? buildCursorWhere("createdAt", "desc", decodeCursor(query.after, "createdAt"), "after") : {},
+    ],
+  };
+
+  const rows = await prisma.ledgerEntry.findMany({
+    where,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+  });
+
+  const hasMore = rows.length > limit;
+  const data = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    success: true,
+    message: "Ledger entries retrieved successfully",
+    data,
+    pagination: {
+      limit,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor("createdAt", data[data.length - 1]) : null,
+    },
+  };
+}
+
+// Totals per type for the driver's entries matching the business date range
+const sumByType = (driverId: string, businessDate?: Prisma.StringFilter) =>
+  prisma.ledgerEntry
+    .groupBy({ by: ["type"], where: { driverId, ...(businessDate ? { businessDate } : {}) }, _sum: { amount: true } })
+    .then((rows) => addTotals(emptyTotals(), rows));
+
+async function getBalance(driverId: string) {
+  const totals = await sumByType(driverId);
+
+  return {
+    success: true,
+    message: "Balance retrieved successfully",
+    data: { driverId, totals, balance: balanceOf(totals) },
+  };
+}
+
+async function getDailySummary(driverId: string, date = businessDateOf(new Date())) {
+  const [opening, totals, entryCount] = await Promise.all([
+    sumByType(driverId, { lt: date }),
+    sumByType(driverId, { equals: date }),
+    prisma.ledgerEntry.count({ where: { driverId, businessDate: date } }),
+  ]);
+
+  const openingBalance = balanceOf(opening);
+
+  return {
+    success: true,
+    message: "Daily summary retrieved successfully",
+    data: {
+      driverId,
+      date,
+      openingBalance,
+      totals,
+      entryCount,
+      closingBalance: openingBalance + balanceOf(totals),
+    },
+  };
+}
+
+// Totals for a range of business dates, with a breakdown for each day that has entries
+async function getPeriodSummary(driverId: string, from: string, to: string) {
+  const days = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+
+  if (days < 0) {
+    throw new BadRequestError("from must not be after to");
+  }
+  if (days >= MAX_PERIOD_DAYS) {
+    throw new BadRequestError(`Summaries can cover at most ${MAX_PERIOD_DAYS} days`);
+  }
+
+  const [opening, rows] = await Promise.all([
+    sumByType(driverId, { lt: from }),
+    prisma.ledgerEntry.groupBy({
+      by: ["businessDate", "type"],
+      where: { driverId, businessDate: { gte: from, lte: to } },
+      _sum: { amount: true },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const totals = emptyTotals();
+  const byDate = new Map<string, { date: string; totals: LedgerTotals; entryCount: number }>();
+
+  for (const row of rows) {
+    const day = byDate.get(row.businessDate) ?? { date: row.businessDate, totals: emptyTotals(), entryCount: 0 };
+    addTotals(day.totals, [row]);
+    addTotals(totals, [row]);
+    day.entryCount += row._count._all;
+    byDate.set(row.businessDate, day);
+  }
+
+  const openingBalance = balanceOf(opening);
+
+  return {
+    success: true,
+    message: "Period summary retrieved successfully",
+    data: {
+      driverId,
+      from,
+      to,
+      openingBalance,
+      totals,
+      closingBalance: openingBalance + balanceOf(totals),
+      days: [...byDate.values()]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map((day) => ({ ...day, balanceChange: balanceOf(day.totals) })),
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { Actor, NearbyDriversQuery, UpdateDriverLocationData } from "../types";
+import { applyUserProjection, buildUserProjection } from "../utils/user.projection";
+import realtimeService, { topics } from "./realtime.service";
+
+const locationService = {
+  updateLocation,
+  getNearbyDrivers,
+};
+
+export default locationService;
+
+const DEFAULT_RADIUS_METERS = 3000;
+const DEFAULT_NEARBY_LIMIT = 20;
+
+// Public fields returned for each driver when the caller doesn't ask for any
+const DEFAULT_NEARBY_FIELDS = "firstName,lastName,avatar";
+
+// How long a location stays valid without another update
+const locationTtlSeconds = () => Number(process.env.DRIVER_LOCATION_TTL_SECONDS) || 120;
+
+// Store the driver's latest position; each update pushes the expiry forward
+async function updateLocation(userId: string, data: UpdateDriverLocationData) {
+  const { lat, lng, ...details } = data;
+  const location = {
+    ...details,
+    location: { type: "Point", coordinates: [lng, lat] },
+    expiresAt: new Date(Date.now() + locationTtlSeconds() * 1000),
+  };
+
+  const driverLocation = await prisma.driverLocation.upsert({
+    where: { userId },
+    create: { userId, ...location },
+    update: location,
+  });
+
+  await realtimeService.publish(topics.driverLocation(userId), "driver.location", {
+    lat,
+    lng,
+    availability: driverLocation.availability,
+    heading: driverLocation.heading,
+    speed: driverLocation.speed,
+    updatedAt: driverLocation.updatedAt,
+  });
+
+  return {
+    success: true,
+    message: "Location updated successfully",
+    data: {
+      availability: driverLocation.availability,
+      lat,
+      lng,
+      expiresAt: driverLocation.expiresAt,
+    },
+  };
+}
+
+interface NearbyRow {
+  userId: { $oid: string };
+  distanceMeters: number;
+  availability: string;
+  location: { coordinates: [number, number] };
+  updatedAt: { $date: string };
+}
+
+// Online drivers within radius, nearest first. Only active, non-deleted drivers with an
+// approved, unexpired profile are returned, and user fields go through the same
+// role-aware projection as getUserById.
+async function getNearbyDrivers(query: NearbyDriversQuery, viewer: Actor) {
+  const { lat, lng, radius = DEFAULT_RADIUS_METERS, limit = DEFAULT_NEARBY_LIMIT } = query;
+  const { select, selfOnly } = buildUserProjection(query.fields ?? DEFAULT_NEARBY_FIELDS, viewer);
+  const now = { $date: new Date().toISOString() };
+
+  // The TTL monitor only runs about once a minute, so expired rows are filtered here too
+  const rows = (await prisma.driverLocation.aggregateRaw({
+    pipeline: [
+      {
+        $geoNear: {
+          near: { type: "Point", coordinates: [lng, lat] },
+          distanceField: "distanceMeters",
+          maxDistance: radius,
+          spherical: true,
+          query: { availability: "online", expiresAt: { $gt: now } },
+        },
+      },
+      {
+        $lookup: {
+          from: "User",
+          localField: "userId",
+          foreignField: "_id",
+          as: "user",
+          pipeline: [{ $match: { isDeleted: false, status: "active", role: "driver" } }, { $project: { _id: 1 } }],
+        },
+      },
+      {
+        $lookup: {
+          from: "DriverProfile",
+          localField: "userId",
+          foreignField: "userId",
+          as: "profile",
+          pipeline: [
+            {
+              $match: {
+                status: "approved",
+                licenseExpiresAt: { $gt: now },
+                franchiseExpiresAt: { $gt: now },
+              },
+            },
+            { $project: { _id: 1 } },
+          ],
+        },
+      },
+      { $match: { "user.0": { $exists: true }, "profile.0": { $exists: true } } },
+      { $limit: limit },
+      { $project: { _id: 0, userId: 1, distanceMeters: 1, availability: 1, location: 1, updatedAt: 1 } },
+    ],
+  })) as unknown as NearbyRow[];
+
+  const userIds = rows.map((row) => row.userId.$oid);
+  const usersQuery: Prisma.UserFindManyArgs = { where: { id: { in: userIds }, isDeleted: false }, select };
+  const users = await prisma.user.findMany(usersQuery);
+  const usersById = new Map(users.map((user) => [user.id, user]));
+
+  // A user could be deleted between the two queries, so skip rows without a match
+  const drivers = rows.flatMap((row) => {
+    const user = usersById.get(row.userId.$oid);
+    if (!user) return [];
+
+    const [rowLng, rowLat] = row.location.coordinates;
+    return [
+      {
+        ...applyUserProjection(user, selfOnly, viewer),
+        distanceMeters: Math.round(row.distanceMeters),
+        availability: row.availability,
+        location: { lat: rowLat, lng: rowLng },
+        updatedAt: new Date(row.updatedAt.$date),
+      },
+    ];
+  });
+
+  return {
+    success: true,
+    message: "Nearby drivers retrieved successfully",
+    data: drivers,
+  };
+}
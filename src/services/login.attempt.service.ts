@@ -0,0 +1,138 @@
+import { prisma } from "../lib/prisma";
+import { logError } from "../middleware/logger";
+import { requireAdminPermission } from "../middleware/rbac";
+import { Actor, RequestContext } from "../types";
+import { NotFoundError } from "../utils/errors";
+import auditService from "./audit.service";
+
+const MAX_ACCOUNT_FAILURES = Number(process.env.LOGIN_MAX_ACCOUNT_FAILURES) || 5;
+const MAX_IP_FAILURES = Number(process.env.LOGIN_MAX_IP_FAILURES) || 20;
+const LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15;
+const WINDOW_MINUTES = Number(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES) || 15;
+const DELAY_BASE_MS = 250;
+const DELAY_MAX_MS = 8000;
+
+const loginAttemptService = {
+  getStatus,
+  delay,
+  recordFailure,
+  recordSuccess,
+  unlockAccount,
+};
+
+export default loginAttemptService;
+
+// Attempts are tracked by email even when no account exists, so a locked
+// address behaves the same whether or not it is registered
+const emailKey = (email: string) => `email:${email.trim().toLowerCase()}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function findActive(key: string) {
+  const attempt = await prisma.loginAttempt.findUnique({ where: { key } });
+  if (!attempt) return null;
+
+  // Failures older than the window no longer count
+  const windowStart = Date.now() - WINDOW_MINUTES * 60 * 1000;
+  const isLocked = !!attempt.lockedUntil && attempt.lockedUntil > new Date();
+  if (!isLocked && (!attempt.lastFailureAt || attempt.lastFailureAt.getTime() < windowStart)) {
+    return null;
+  }
+
+  return attempt;
+}
+
+// Current failure counts and lock state for an email/IP pair
+async function getStatus(email: string, ip?: string) {
+  const [account, address] = await Promise.all([
+    findActive(emailKey(email)),
+    ip ? findActive(ipKey(ip)) : null,
+  ]);
+
+  const now = new Date();
+  const lockedUntil = [account?.lockedUntil, address?.lockedUntil]
+    .filter((date): date is Date => !!date && date > now)
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+
+  return {
+    locked: !!lockedUntil,
+    lockedUntil,
+    failures: Math.max(account?.failures || 0, address?.failures || 0),
+  };
+}
+
+// Progressive delay: doubles with every failure after the second
+async function delay(failures: number) {
+  if (failures < 2) return;
+  await sleep(Math.min(DELAY_BASE_MS * 2 ** (failures - 2), DELAY_MAX_MS));
+}
+
+// Concurrent failures must all count, so the counter is only changed with atomic
+// updates rather than read, incremented and written back
+async function increment(key: string, maxFailures: number) {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - WINDOW_MINUTES * 60 * 1000);
+
+  // Failures older than the window no longer count; start over unless still locked
+  await prisma.loginAttempt.updateMany({
+    where: {
+      key,
+      lastFailureAt: { lt: windowStart },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }],
+    },
+    data: { failures: 0, lockedUntil: null },
+  });
+
+  const attempt = await prisma.loginAttempt.upsert({
+    where: { key },
+    create: { key, failures: 1, lastFailureAt: now, lockedUntil: null },
+    update: { failures: { increment: 1 }, lastFailureAt: now },
+  });
+
+  if (attempt.failures < maxFailures) return;
+
+  const lockedUntil = new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000);
+
+  await prisma.loginAttempt.updateMany({
+    where: { id: attempt.id, failures: { gte: maxFailures } },
+    data: { lockedUntil },
+  });
+
+  if (attempt.failures === maxFailures) {
+    logError(`Login locked for ${key} after ${attempt.failures} failed attempts until ${lockedUntil.toISOString()}`);
+  }
+}
+
+async function recordFailure(email: string, ip?: string) {
+  await Promise.all([
+    increment(emailKey(email), MAX_ACCOUNT_FAILURES),
+    ip ? increment(ipKey(ip), MAX_IP_FAILURES) : undefined,
+  ]);
+}
+
+// A successful login clears the account counter; the IP counter is left to expire
+async function recordSuccess(email: string) {
+  await prisma.loginAttempt.deleteMany({ where: { key: emailKey(email) } });
+}
+
+async function unlockAccount(id: string, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { email: true },
+  });
+
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  // IP lockouts aren't tied to an account, so they are left to expire
+  await prisma.loginAttempt.deleteMany({ where: { key: emailKey(user.email) } });
+
+  await auditService.record({ action: "user.unlock", actor, targetType: "user", targetId: id, context });
+
+  return { success: true, message: "Account unlocked successfully" };
+}
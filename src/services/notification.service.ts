@@ -0,0 +1,255 @@
+import { Prisma } from "@prisma/client";
+import { mailer } from "../lib/mailer";
+import { prisma } from "../lib/prisma";
+import { sms } from "../lib/sms";
+import { logError } from "../middleware/logger";
+import {
+  Actor,
+  NotificationChannel,
+  NotificationChannelName,
+  NotificationQuery,
+  NotificationRecipient,
+  NotificationType,
+  RenderedNotification,
+  UpdateNotificationPreferencesData,
+} from "../types";
+import { BadRequestError, NotFoundError } from "../utils/errors";
+import { buildCursorWhere, decodeCursor, encodeCursor } from "../utils/cursor";
+import { NOTIFICATION_TEMPLATES, renderTemplate } from "../utils/notification.templates";
+
+const notificationService = {
+  notify,
+  setChannel,
+  getNotifications,
+  getUnreadCount,
+  markRead,
+  markAllRead,
+  getPreferences,
+  updatePreferences,
+};
+
+export default notificationService;
+
+// Preferences of users who haven't saved any
+const DEFAULT_PREFERENCES = { inApp: true, email: true, sms: false, mutedTypes: [] as string[] };
+
+const PREFERENCE_SELECT = {
+  inApp: true,
+  email: true,
+  sms: true,
+  mutedTypes: true,
+} satisfies Prisma.NotificationPreferenceSelect;
+
+// Which preference switches each channel
+const PREFERENCE_FIELDS: Record<NotificationChannelName, "inApp" | "email" | "sms"> = {
+  in_app: "inApp",
+  email: "email",
+  sms: "sms",
+};
+
+// Stores the notification in the user's inbox
+const inAppChannel: NotificationChannel = {
+  name: "in_app",
+  deliver: async (recipient, notification) => {
+    await prisma.notification.create({
+      data: {
+        userId: recipient.id,
+        type: notification.type,
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+        // Stored explicitly so readAt: null filters match
+        readAt: null,
+      },
+    });
+    return true;
+  },
+};
+
+const emailChannel: NotificationChannel = {
+  name: "email",
+  deliver: async (recipient, notification) => {
+    await mailer.send({ to: recipient.email, subject: notification.title, text: notification.body });
+    return true;
+  },
+};
+
+const smsChannel: NotificationChannel = {
+  name: "sms",
+  deliver: async (recipient, notification) => {
+    if (!recipient.phone) return false;
+
+    await sms.send({ to: recipient.phone, text: notification.body });
+    return true;
+  },
+};
+
+const channels: Record<NotificationChannelName, NotificationChannel> = {
+  in_app: inAppChannel,
+  email: emailChannel,
+  sms: smsChannel,
+};
+
+// Replace the channel with the same name, e.g. to send through a real SMS provider
+function setChannel(channel: NotificationChannel) {
+  channels[channel.name] = channel;
+}
+
+// Tell a user about something that happened to their account. The change has already
+// been saved, so failures are logged rather than failing the request; one channel
+// failing doesn't stop the others.
+async function notify(userId: string, type: NotificationType, data: Record<string, string> = {}) {
+  try {
+    const template = NOTIFICATION_TEMPLATES[type];
+
+    const [user, preferences] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, firstName: true, lastName: true, middleName: true, role: true, status: true, metadata: true },
+      }),
+      prisma.notificationPreference.findUnique({ where: { userId } }),
+    ]);
+
+    if (!user) return;
+
+    const preference = preferences ?? DEFAULT_PREFERENCES;
+
+    const selectedChannels: NotificationChannelName[] = template.critical
+      ? template.channels
+      : preference.mutedTypes.includes(type)
+        ? []
+        : template.channels.filter((name) => preference[PREFERENCE_FIELDS[name]]);
+
+    const { metadata, ...variables } = user;
+    const values = { ...variables, ...data };
+
+    const recipient: NotificationRecipient = { id: user.id, email: user.email, firstName: user.firstName, phone: metadata?.phone };
+    const notification: RenderedNotification = {
+      type,
+      title: renderTemplate(template.title, values),
+      body: renderTemplate(template.body, values),
+      data,
+    };
+
+    await Promise.all(
+      selectedChannels.map(async (name) => {
+        try {
+          await channels[name].deliver(recipient, notification);
+        } catch (error) {
+          logError(`Failed to deliver ${type} notification to ${userId} over ${name}`, error);
+        }
+      })
+    );
+  } catch (error) {
+    logError(`Failed to send ${type} notification to ${userId}`, error);
+  }
+}
+
+// Own inbox, newest first
+async function getNotifications(actor: Actor, query: NotificationQuery) {
+  const limit = query.limit || 20;
+
+  const rows = await prisma.notification.findMany({
+    where: {
+      AND: [
+        { userId: actor.id },
+        query.unread ? { readAt: null } : {},
+        query.after ? buildCursorWhere("createdAt", "desc", decodeCursor(query.after, "createdAt"), "after") : {},
+      ],
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+  });
+
+  const hasMore = rows.length > limit;
+  const data = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    success: true,
+    message: "Notifications retrieved successfully",
+    data,
+    pagination: {
+      limit,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor("createdAt", data[data.length - 1]) : null,
+    },
+  };
+}
+
+async function getUnreadCount(actor: Actor) {
+  const unread = await prisma.notification.count({ where: { userId: actor.id, readAt: null } });
+
+  return {
+    success: true,
+    message: "Unread count retrieved successfully",
+    data: { unread },
+  };
+}
+
+// Marking an already read notification again is a no-op
+async function markRead(actor: Actor, id: string) {
+  await prisma.notification.updateMany({
+    where: { id, userId: actor.id, readAt: null },
+    data: { readAt: new Date() },
+  });
+
+  const notification = await prisma.notification.findUnique({ where: { id } });
+
+  // Other users' notifications look like they don't exist
+  if (!notification || notification.userId !== actor.id) {
+    throw new NotFoundError("Notification not found");
+  }
+
+  return {
+    success: true,
+    message: "Notification marked as read",
+    data: notification,
+  };
+}
+
+async function markAllRead(actor: Actor) {
+  const { count } = await prisma.notification.updateMany({
+    where: { userId: actor.id, readAt: null },
+    data: { readAt: new Date() },
+  });
+
+  return {
+    success: true,
+    message: "Notifications marked as read",
+    data: { updated: count },
+  };
+}
+
+async function getPreferences(actor: Actor) {
+  const preferences = await prisma.notificationPreference.findUnique({
+    where: { userId: actor.id },
+    select: PREFERENCE_SELECT,
+  });
+
+  return {
+    success: true,
+    message: "Notification preferences retrieved successfully",
+    data: preferences ?? DEFAULT_PREFERENCES,
+  };
+}
+
+async function updatePreferences(actor: Actor, data: UpdateNotificationPreferencesData) {
+  const critical = (data.mutedTypes ?? []).filter((type) => NOTIFICATION_TEMPLATES[type as NotificationType]?.critical);
+
+  if (critical.length > 0) {
+    throw new BadRequestError(`These notifications can't be muted: ${critical.join(", ")}`);
+  }
+
+  const preferences = await prisma.notificationPreference.upsert({
+    where: { userId: actor.id },
+    create: { ...DEFAULT_PREFERENCES, ...data, userId: actor.id },
+    update: data,
+    select: PREFERENCE_SELECT,
+  });
+
+  return {
+    success: true,
+    message: "Notification preferences updated successfully",
+    data: preferences,
+  };
+}
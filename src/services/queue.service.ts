@@ -0,0 +1,410 @@
+import { Prisma, QueueEntry } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { requireAdminPermission, requireDispatchPermission } from "../middleware/rbac";
+import { Actor, CreateTerminalData, RequestContext, UpdateTerminalData } from "../types";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/errors";
+import auditService from "./audit.service";
+
+const queueService = {
+  getTerminals,
+  getAllTerminals,
+  createTerminal,
+  updateTerminal,
+  checkIn,
+  checkOut,
+  getOwnEntry,
+  getQueue,
+  reorderQueue,
+  removeEntry,
+  dispatchNext,
+  removeDriver,
+  removeIneligibleDrivers,
+};
+
+export default queueService;
+
+// Rides that keep a driver away from the terminal
+const ACTIVE_RIDE_STATUSES = ["accepted", "arrived", "in_progress"] as const;
+
+// Dispatch retries when another dispatcher takes the head of the queue first
+const MAX_DISPATCH_ATTEMPTS = 5;
+
+const QUEUE_ORDER: Prisma.QueueEntryOrderByWithRelationInput[] = [{ rank: "asc" }, { id: "asc" }];
+
+async function findTerminal(id: string) {
+  const terminal = await prisma.terminal.findUnique({ where: { id } });
+
+  if (!terminal) {
+    throw new NotFoundError("Terminal not found");
+  }
+
+  return terminal;
+}
+
+// Drivers among driverIds who may stay in a queue: active, not deleted, with an
+// approved profile whose license and franchise haven't lapsed, and not on a ride
+async function findEligibleDrivers(driverIds: string[]) {
+  const now = new Date();
+  const [drivers, busyRides] = await Promise.all([
+    prisma.user.findMany({
+      where: {
+        id: { in: driverIds },
+        isDeleted: false,
+        status: "active",
+        role: "driver",
+        driverProfile: {
+          is: { status: "approved", licenseExpiresAt: { gt: now }, franchiseExpiresAt: { gt: now } },
+        },
+      },
+      select: { id: true },
+    }),
+    prisma.ride.findMany({
+      where: { driverId: { in: driverIds }, status: { in: [...ACTIVE_RIDE_STATUSES] } },
+      select: { driverId: true },
+    }),
+  ]);
+
+  const busy = new Set(busyRides.map((ride) => ride.driverId));
+
+  return new Set(drivers.map((driver) => driver.id).filter((id) => !busy.has(id)));
+}
+
+// 1-based place in line, counting entries ahead in queue order
+const positionOf = (entry: QueueEntry) =>
+  prisma.queueEntry
+    .count({
+      where: {
+        terminalId: entry.terminalId,
+        OR: [{ rank: { lt: entry.rank } }, { rank: entry.rank, id: { lt: entry.id } }],
+      },
+    })
+    .then((ahead) => ahead + 1);
+
+// Active terminals with the number of drivers waiting
+async function getTerminals() {
+  const terminals = await prisma.terminal.findMany({
+    where: { isActive: true },
+    orderBy: { name: "asc" },
+    include: { _count: { select: { queue: true } } },
+  });
+
+  return {
+    success: true,
+    message: "Terminals retrieved successfully",
+    data: terminals.map(({ _count, ...terminal }) => ({ ...terminal, waiting: _count.queue })),
+  };
+}
+
+async function getAllTerminals(actor?: Actor) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const terminals = await prisma.terminal.findMany({ orderBy: { name: "asc" } });
+
+  return {
+    success: true,
+    message: "Terminals retrieved successfully",
+    data: terminals,
+  };
+}
+
+async function createTerminal(data: CreateTerminalData, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const terminal = await prisma.terminal.create({
+    data: { ...data, createdBy: actor?.id },
+  });
+
+  await auditService.record({ action: "terminal.create", actor, targetType: "terminal", targetId: terminal.id, after: terminal, context });
+
+  return {
+    success: true,
+    message: "Terminal created successfully",
+    data: terminal,
+  };
+}
+
+// Closing a terminal sends everyone in its queue away
+async function updateTerminal(id: string, data: UpdateTerminalData, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const existingTerminal = await findTerminal(id);
+
+  const terminal = await prisma.terminal.update({ where: { id }, data });
+
+  if (existingTerminal.isActive && !terminal.isActive) {
+    await prisma.queueEntry.deleteMany({ where: { terminalId: id } });
+  }
+
+  await auditService.record({
+    action: "terminal.update",
+    actor,
+    targetType: "terminal",
+    targetId: id,
+    before: existingTerminal,
+    after: terminal,
+    context,
+  });
+
+  return {
+    success: true,
+    message: "Terminal updated successfully",
+    data: terminal,
+  };
+}
+
+async function checkIn(terminalId: string, actor: Actor) {
+  const terminal = await findTerminal(terminalId);
+
+  if (!terminal.isActive) {
+    throw new BadRequestError("Terminal is closed");
+  }
+
+  const activeRide = await prisma.ride.findFirst({
+    where: { driverId: actor.id, status: { in: [...ACTIVE_RIDE_STATUSES] } },
+    select: { id: true },
+  });
+
+  if (activeRide) {
+    throw new ConflictError("Finish your current ride before joining a queue");
+  }
+
+  const existingEntry = await prisma.queueEntry.findUnique({ where: { driverId: actor.id } });
+
+  if (existingEntry) {
+    throw new ConflictError(
+      existingEntry.terminalId === terminalId ? "You are already in this queue" : "You are already in another terminal's queue"
+    );
+  }
+
+  // The unique driverId index still rejects a concurrent second check-in with a 409
+  const entry = await prisma.queueEntry.create({
+    data: { terminalId, driverId: actor.id, rank: Date.now() },
+  });
+
+  return {
+    success: true,
+    message: "Checked in successfully",
+    data: { ...entry, position: await positionOf(entry) },
+  };
+}
+
+async function checkOut(actor: Actor) {
+  const { count } = await prisma.queueEntry.deleteMany({ where: { driverId: actor.id } });
+
+  if (count === 0) {
+    throw new NotFoundError("You are not in a queue");
+  }
+
+  return {
+    success: true,
+    message: "Checked out successfully",
+  };
+}
+
+async function getOwnEntry(actor: Actor) {
+  const entry = await prisma.queueEntry.findUnique({
+    where: { driverId: actor.id },
+    include: { terminal: { select: { id: true, name: true, todaName: true } } },
+  });
+
+  if (!entry) {
+    throw new NotFoundError("You are not in a queue");
+  }
+
+  return {
+    success: true,
+    message: "Queue entry retrieved successfully",
+    data: { ...entry, position: await positionOf(entry) },
+  };
+}
+
+// The terminal's queue in order, with each driver's name and tricycle
+async function getQueue(terminalId: string, actor?: Actor) {
+  // RBAC Check - require dispatch permission
+  requireDispatchPermission(actor);
+
+  const terminal = await findTerminal(terminalId);
+
+  const entries = await prisma.queueEntry.findMany({ where: { terminalId }, orderBy: QUEUE_ORDER });
+
+  const drivers = await prisma.user.findMany({
+    where: { id: { in: entries.map((entry) => entry.driverId) } },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      driverProfile: { select: { plateNumber: true, bodyNumber: true } },
+    },
+  });
+  const driversById = new Map(drivers.map((driver) => [driver.id, driver]));
+
+  return {
+    success: true,
+    message: "Queue retrieved successfully",
+    data: {
+      terminal,
+      queue: entries.map((entry, index) => ({
+        ...entry,
+        position: index + 1,
+        driver: driversById.get(entry.driverId) ?? null,
+      })),
+    },
+  };
+}
+
+// Put the queue in the given order. The list must name every waiting entry exactly once;
+// the existing ranks are handed out in the new order, so drivers who check in
+// meanwhile still land at the back.
+async function reorderQueue(terminalId: string, entryIds: string[], actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require dispatch permission
+  requireDispatchPermission(actor);
+
+  await findTerminal(terminalId);
+
+  const entries = await prisma.queueEntry.findMany({ where: { terminalId }, orderBy: QUEUE_ORDER });
+
+  const currentIds = entries.map((entry) => entry.id);
+  const sameEntries =
+    entryIds.length === currentIds.length && new Set(entryIds).size === entryIds.length && entryIds.every((id) => currentIds.includes(id));
+
+  if (!sameEntries) {
+    throw new ConflictError("The queue has changed, reload it and try again");
+  }
+
+  const ranks = entries.map((entry) => entry.rank);
+
+  try {
+    await prisma.$transaction(entryIds.map((id, index) => prisma.queueEntry.update({ where: { id }, data: { rank: ranks[index] } })));
+  } catch (error) {
+    // An entry was dispatched or removed after the queue was read
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+      throw new ConflictError("The queue has changed, reload it and try again");
+    }
+    throw error;
+  }
+
+  await auditService.record({
+    action: "queue.reorder",
+    actor,
+    targetType: "terminal",
+    targetId: terminalId,
+    before: { queue: currentIds },
+    after: { queue: entryIds },
+    context,
+  });
+
+  const queue = await getQueue(terminalId, actor);
+
+  return {
+    success: true,
+    message: "Queue reordered successfully",
+    data: queue.data,
+  };
+}
+
+async function removeEntry(terminalId: string, entryId: string, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require dispatch permission
+  requireDispatchPermission(actor);
+
+  const entry = await prisma.queueEntry.findFirst({ where: { id: entryId, terminalId } });
+
+  if (!entry) {
+    throw new NotFoundError("Queue entry not found");
+  }
+
+  await prisma.queueEntry.deleteMany({ where: { id: entryId } });
+
+  await auditService.record({
+    action: "queue.remove",
+    actor,
+    targetType: "terminal",
+    targetId: terminalId,
+    before: { driverId: entry.driverId, checkedInAt: entry.checkedInAt },
+    context,
+  });
+
+  return {
+    success: true,
+    message: "Driver removed from queue successfully",
+  };
+}
+
+// Hand the first eligible driver in line to a passenger. Taking an entry is a single
+// delete, so when two dispatches race for the same driver only one of them gets it
+// and the other moves on to the next driver.
+async function dispatchNext(terminalId: string, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require dispatch permission
+  requireDispatchPermission(actor);
+
+  await findTerminal(terminalId);
+
+  for (let attempt = 0; attempt < MAX_DISPATCH_ATTEMPTS; attempt++) {
+    const candidates = await prisma.queueEntry.findMany({ where: { terminalId }, orderBy: QUEUE_ORDER, take: 5 });
+
+    if (candidates.length === 0) {
+      throw new ConflictError("No drivers are waiting at this terminal");
+    }
+
+    const eligible = await findEligibleDrivers(candidates.map((entry) => entry.driverId));
+
+    for (const entry of candidates) {
+      const { count } = await prisma.queueEntry.deleteMany({ where: { id: entry.id } });
+
+      // Another dispatch or a check-out got there first
+      if (count === 0) continue;
+
+      // Drivers who lost eligibility since checking in are dropped on the way
+      if (!eligible.has(entry.driverId)) continue;
+
+      const driver = await prisma.user.findUnique({
+        where: { id: entry.driverId },
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          driverProfile: { select: { plateNumber: true, bodyNumber: true } },
+        },
+      });
+
+      await auditService.record({
+        action: "queue.dispatch",
+        actor,
+        targetType: "terminal",
+        targetId: terminalId,
+        after: { driverId: entry.driverId, checkedInAt: entry.checkedInAt },
+        context,
+      });
+
+      return {
+        success: true,
+        message: "Driver dispatched successfully",
+        data: { driver, checkedInAt: entry.checkedInAt, dispatchedAt: new Date() },
+      };
+    }
+  }
+
+  throw new ConflictError("The queue is busy, please retry");
+}
+
+// Take a driver out of any queue, e.g. when their account stops being active
+async function removeDriver(driverId: string) {
+  await prisma.queueEntry.deleteMany({ where: { driverId } });
+}
+
+// Sweep queued drivers who are no longer eligible. Returns how many were removed.
+async function removeIneligibleDrivers() {
+  const entries = await prisma.queueEntry.findMany({ select: { driverId: true } });
+  if (entries.length === 0) return 0;
+
+  const driverIds = entries.map((entry) => entry.driverId);
+  const eligible = await findEligibleDrivers(driverIds);
+  const ineligible = driverIds.filter((id) => !eligible.has(id));
+
+  if (ineligible.length === 0) return 0;
+
+  const { count } = await prisma.queueEntry.deleteMany({ where: { driverId: { in: ineligible } } });
+  return count;
+}
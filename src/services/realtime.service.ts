@@ -0,0 +1,101 @@
+import { eventBus } from "../lib/event.bus";
+import { prisma } from "../lib/prisma";
+import { logError } from "../middleware/logger";
+import { can } from "../middleware/rbac";
+import { Actor, RealtimeTopicKind } from "../types";
+import { ForbiddenError } from "../utils/errors";
+import tokenService from "./token.service";
+
+const realtimeService = {
+  publish,
+  authorizeTopics,
+  findDeniedTopics,
+  checkConnection,
+};
+
+export default realtimeService;
+
+// Topic names, e.g. user.<id>.status. Publishers should build them with these helpers.
+export const topics = {
+  userStatus: (userId: string) => `user.${userId}.status`,
+  driverLocation: (driverId: string) => `driver.${driverId}.location`,
+  rideStatus: (rideId: string) => `ride.${rideId}.status`,
+};
+
+export const TOPIC_PATTERN = /^(user\.[a-f0-9]{24}\.status|driver\.[a-f0-9]{24}\.location|ride\.[a-f0-9]{24}\.status)$/;
+
+// Rides during which the passenger may follow the driver's position
+const TRACKABLE_RIDE_STATUSES = ["accepted", "arrived", "in_progress"] as const;
+
+// Who may subscribe to each kind of topic. Admins may subscribe to anything.
+const TOPIC_ACCESS: Record<RealtimeTopicKind, (actor: Actor, id: string) => Promise<boolean>> = {
+  "user.status": async (actor, userId) => actor.id === userId,
+
+  "driver.location": async (actor, driverId) => {
+    if (actor.id === driverId) return true;
+
+    const ride = await prisma.ride.findFirst({
+      where: { driverId, passengerId: actor.id, status: { in: [...TRACKABLE_RIDE_STATUSES] } },
+      select: { id: true },
+    });
+    return !!ride;
+  },
+
+  "ride.status": async (actor, rideId) => {
+    const ride = await prisma.ride.findUnique({ where: { id: rideId }, select: { passengerId: true, driverId: true } });
+    return !!ride && (ride.passengerId === actor.id || ride.driverId === actor.id);
+  },
+};
+
+const parseTopic = (topic: string) => {
+  if (!TOPIC_PATTERN.test(topic)) return undefined;
+
+  const [resource, id, event] = topic.split(".");
+  return { kind: `${resource}.${event}` as RealtimeTopicKind, id };
+};
+
+// Publish an event for live subscribers. The change it describes has already been
+// saved, so a failed publish is logged rather than failing the request.
+async function publish(topic: string, type: string, data: unknown) {
+  try {
+    await eventBus.publish(topic, type, data);
+  } catch (error) {
+    logError(`Failed to publish ${type} on ${topic}`, error);
+  }
+}
+
+// Topics the actor is no longer (or never was) allowed to receive
+async function findDeniedTopics(actor: Actor, requested: string[]) {
+  if (can(actor, "admin:all")) return [];
+
+  const denied: string[] = [];
+  for (const topic of requested) {
+    const parsed = parseTopic(topic);
+    if (!parsed || !(await TOPIC_ACCESS[parsed.kind](actor, parsed.id))) {
+      denied.push(topic);
+    }
+  }
+
+  return denied;
+}
+
+async function authorizeTopics(actor: Actor, requested: string[]) {
+  const denied = await findDeniedTopics(actor, requested);
+
+  if (denied.length > 0) {
+    throw new ForbiddenError(`Not allowed to subscribe to: ${denied.join(", ")}`);
+  }
+}
+
+// Re-run the checks authenticate did when the stream was opened. Returns the current
+// actor, or null if the session was revoked or the account can no longer sign in.
+async function checkConnection(userId: string, sessionId: string | undefined): Promise<Actor | null> {
+  if (!sessionId || !(await tokenService.isSessionActive(sessionId))) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId, isDeleted: false, status: "active" },
+    select: { id: true, role: true },
+  });
+
+  return user;
+}
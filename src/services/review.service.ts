@@ -0,0 +1,299 @@
+import { Prisma, Review } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { requireAdminPermission } from "../middleware/rbac";
+import { Actor, CreateReviewData, RequestContext, ReviewQuery, UpdateReviewData } from "../types";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from "../utils/errors";
+import { buildCursorWhere, decodeCursor, encodeCursor } from "../utils/cursor";
+import auditService from "./audit.service";
+
+// Tags a passenger can attach to a review; free text goes in the comment
+export const REVIEW_TAGS = [
+  "safe_driving",
+  "friendly",
+  "clean_vehicle",
+  "on_time",
+  "knows_the_route",
+  "unsafe_driving",
+  "rude",
+  "dirty_vehicle",
+  "late",
+  "overcharged",
+];
+
+const reviewService = {
+  createReview,
+  updateReview,
+  getDriverReviews,
+  getReviews,
+  hideReview,
+  unhideReview,
+};
+
+export default reviewService;
+
+// What other users see of a review; the reviewer stays anonymous
+const PUBLIC_REVIEW_SELECT = {
+  id: true,
+  rating: true,
+  tags: true,
+  comment: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ReviewSelect;
+
+// How long after posting a reviewer may still change their review
+const editWindowHours = () => Number(process.env.REVIEW_EDIT_WINDOW_HOURS) || 24;
+
+async function findReview(id: string) {
+  const review = await prisma.review.findUnique({ where: { id } });
+
+  if (!review) {
+    throw new NotFoundError("Review not found");
+  }
+
+  return review;
+}
+
+const recordModeration = (
+  action: "review.hide" | "review.unhide",
+  before: Review,
+  after: Review,
+  actor?: Actor,
+  context?: RequestContext
+) =>
+  auditService.record({
+    action,
+    actor,
+    targetType: "review",
+    targetId: before.id,
+    before: { hiddenAt: before.hiddenAt, hiddenReason: before.hiddenReason },
+    after: { hiddenAt: after.hiddenAt, hiddenReason: after.hiddenReason },
+    context,
+  });
+
+// Recompute the driver's rating from their visible reviews. A full recount rather than
+// an increment, so hiding, unhiding and concurrent edits can't make it drift.
+async function refreshDriverRating(driverId: string) {
+  const { _avg, _count } = await prisma.review.aggregate({
+    where: { driverId, hiddenAt: null },
+    _avg: { rating: true },
+    _count: { _all: true },
+  });
+
+  // updateMany so a purged driver's reviews can still be moderated
+  await prisma.user.updateMany({
+    where: { id: driverId },
+    data: {
+      ratingAverage: _avg.rating === null ? null : Math.round(_avg.rating * 100) / 100,
+      ratingCount: _count._all,
+    },
+  });
+}
+
+// Only the passenger of a completed ride can review its driver, once
+async function createReview(actor: Actor, data: CreateReviewData) {
+  const ride = await prisma.ride.findUnique({ where: { id: data.rideId } });
+
+  // Other users' rides look like they don't exist
+  if (!ride || ride.passengerId !== actor.id) {
+    throw new NotFoundError("Ride not found");
+  }
+
+  if (ride.status !== "completed" || !ride.driverId) {
+    throw new BadRequestError("Only completed rides can be reviewed");
+  }
+
+  const existingReview = await prisma.review.findUnique({
+    where: { rideId_reviewerId: { rideId: ride.id, reviewerId: actor.id } },
+    select: { id: true },
+  });
+
+  if (existingReview) {
+    throw new ConflictError("You have already reviewed this ride");
+  }
+
+  // The unique index still rejects a concurrent duplicate with a 409
+  const review = await prisma.review.create({
+    data: {
+      rideId: ride.id,
+      reviewerId: actor.id,
+      driverId: ride.driverId,
+      rating: data.rating,
+      tags: data.tags ?? [],
+      comment: data.comment,
+      // Stored explicitly so hiddenAt: null filters match
+      hiddenAt: null,
+    },
+  });
+
+  await refreshDriverRating(review.driverId);
+
+  return {
+    success: true,
+    message: "Review submitted successfully",
+    data: review,
+  };
+}
+
+async function updateReview(id: string, actor: Actor, data: UpdateReviewData) {
+  const review = await findReview(id);
+
+  if (review.reviewerId !== actor.id) {
+    throw new NotFoundError("Review not found");
+  }
+
+  if (review.hiddenAt) {
+    throw new ForbiddenError("Hidden reviews cannot be edited");
+  }
+
+  const editableUntil = new Date(review.createdAt.getTime() + editWindowHours() * 60 * 60 * 1000);
+  if (new Date() > editableUntil) {
+    throw new ForbiddenError("Reviews can only be edited within the edit window");
+  }
+
+  const updatedReview = await prisma.review.update({
+    where: { id },
+    data,
+  });
+
+  if (data.rating !== undefined && data.rating !== review.rating) {
+    await refreshDriverRating(review.driverId);
+  }
+
+  return {
+    success: true,
+    message: "Review updated successfully",
+    data: updatedReview,
+  };
+}
+
+// Visible reviews of a driver, newest first
+async function getDriverReviews(driverId: string, query: { limit?: number; after?: string }) {
+  const limit = query.limit || 20;
+
+  const driver = await prisma.user.findUnique({
+    where: { id: driverId, isDeleted: false, role: "driver" },
+    select: { ratingAverage: true, ratingCount: true },
+  });
+
+  if (!driver) {
+    throw new NotFoundError("Driver not found");
+  }
+
+  const rows = await prisma.review.findMany({
+    where: {
+      AND: [
+        { driverId, hiddenAt: null },
+        query.after ? buildCursorWhere("createdAt", "desc", decodeCursor(query.after, "createdAt"), "after") : {},
+      ],
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    select: PUBLIC_REVIEW_SELECT,
+  });
+
+  const hasMore = rows.length > limit;
+  const data = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    success: true,
+    message: "Reviews retrieved successfully",
+    data: {
+      rating: { average: driver.ratingAverage ?? null, count: driver.ratingCount ?? 0 },
+      reviews: data,
+    },
+    pagination: {
+      limit,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor("createdAt", data[data.length - 1]) : null,
+    },
+  };
+}
+
+// Moderation queue: every review including hidden ones, newest first
+async function getReviews(query: ReviewQuery, actor?: Actor) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const limit = query.limit || 50;
+
+  const where: Prisma.ReviewWhereInput = {
+    AND: [
+      query.driverId ? { driverId: query.driverId } : {},
+      query.rating ? { rating: query.rating } : {},
+      query.hidden === undefined ? {} : query.hidden ? { hiddenAt: { not: null } } : { hiddenAt: null },
+      query.after ? buildCursorWhere("createdAt", "desc", decodeCursor(query.after, "createdAt"), "after") : {},
+    ],
+  };
+
+  const rows = await prisma.review.findMany({
+    where,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+  });
+
+  const hasMore = rows.length > limit;
+  const data = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    success: true,
+    message: "Reviews retrieved successfully",
+    data,
+    pagination: {
+      limit,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor("createdAt", data[data.length - 1]) : null,
+    },
+  };
+}
+
+// Hidden reviews are kept for the record but no longer count toward the rating
+async function hideReview(id: string, reason: string, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const review = await findReview(id);
+
+  if (review.hiddenAt) {
+    throw new ConflictError("Review is already hidden");
+  }
+
+  const hiddenReview = await prisma.review.update({
+    where: { id },
+    data: { hiddenAt: new Date(), hiddenBy: actor?.id, hiddenReason: reason },
+  });
+
+  await refreshDriverRating(review.driverId);
+  await recordModeration("review.hide", review, hiddenReview, actor, context);
+
+  return {
+    success: true,
+    message: "Review hidden successfully",
+    data: hiddenReview,
+  };
+}
+
+async function unhideReview(id: string, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const review = await findReview(id);
+
+  if (!review.hiddenAt) {
+    throw new ConflictError("Review is not hidden");
+  }
+
+  const visibleReview = await prisma.review.update({
+    where: { id },
+    data: { hiddenAt: null, hiddenBy: null, hiddenReason: null },
+  });
+
+  await refreshDriverRating(review.driverId);
+  await recordModeration("review.unhide", review, visibleReview, actor, context);
+
+  return {
+    success: true,
+    message: "Review restored successfully",
+    data: visibleReview,
+  };
+}
@@ -0,0 +1,279 @@
+import { Prisma, Ride } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { can } from "../middleware/rbac";
+import { Actor, RequestRideData, RideHistoryQuery, RideStatus } from "../types";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from "../utils/errors";
+import { buildCursorWhere, decodeCursor, encodeCursor } from "../utils/cursor";
+import queueService from "./queue.service";
+import realtimeService, { topics } from "./realtime.service";
+
+const rideService = {
+  requestRide,
+  getRide,
+  getHistory,
+  getAvailableRides,
+  acceptRide,
+  arriveRide,
+  startRide,
+  completeRide,
+  cancelRide,
+};
+
+export default rideService;
+
+// The only moves the server allows; everything else is a 409
+const RIDE_TRANSITIONS: Record<RideStatus, RideStatus[]> = {
+  requested: ["accepted", "cancelled"],
+  accepted: ["arrived", "cancelled"],
+  arrived: ["in_progress", "cancelled"],
+  in_progress: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+type RideParty = "passenger" | "driver" | "admin";
+
+// Who may cancel a ride in which state. Once the trip has started only an admin can cancel it.
+const CANCELLABLE_STATUSES: Record<RideParty, RideStatus[]> = {
+  passenger: ["requested", "accepted", "arrived"],
+  driver: ["accepted", "arrived"],
+  admin: ["requested", "accepted", "arrived", "in_progress"],
+};
+
+const STATUS_TIMESTAMPS: Partial<Record<RideStatus, keyof Ride>> = {
+  accepted: "acceptedAt",
+  arrived: "arrivedAt",
+  in_progress: "startedAt",
+  completed: "completedAt",
+  cancelled: "cancelledAt",
+};
+
+const ACTIVE_STATUSES: RideStatus[] = ["requested", "accepted", "arrived", "in_progress"];
+
+async function findRide(id: string) {
+  const ride = await prisma.ride.findUnique({ where: { id } });
+
+  if (!ride) {
+    throw new NotFoundError("Ride not found");
+  }
+
+  return ride;
+}
+
+// How the actor relates to the ride; rides of other users look like they don't exist
+const partyOf = (ride: Ride, actor: Actor): RideParty => {
+  if (ride.passengerId === actor.id) return "passenger";
+  if (ride.driverId === actor.id) return "driver";
+  if (can(actor, "admin:all")) return "admin";
+  throw new NotFoundError("Ride not found");
+};
+
+// Move a ride to a new status. The update is conditional on the status it was read
+// with, so two concurrent moves (e.g. two drivers accepting) can't both succeed.
+async function moveRide(ride: Ride, to: RideStatus, data: Prisma.RideUpdateManyMutationInput = {}) {
+  if (!RIDE_TRANSITIONS[ride.status].includes(to)) {
+    throw new ConflictError(`Cannot move a ${ride.status} ride to ${to}`);
+  }
+
+  const timestamp = STATUS_TIMESTAMPS[to];
+  const { count } = await prisma.ride.updateMany({
+    where: { id: ride.id, status: ride.status },
+    data: { ...data, status: to, ...(timestamp ? { [timestamp]: new Date() } : {}) },
+  });
+
+  if (count === 0) {
+    throw new ConflictError("Ride was changed by another request, please retry");
+  }
+
+  const movedRide = await prisma.ride.findUniqueOrThrow({ where: { id: ride.id } });
+
+  await realtimeService.publish(topics.rideStatus(ride.id), "ride.status", {
+    status: movedRide.status,
+    driverId: movedRide.driverId,
+    fare: movedRide.fare,
+    cancelledBy: movedRide.cancelledBy,
+    cancelReason: movedRide.cancelReason,
+    updatedAt: movedRide.updatedAt,
+  });
+
+  return movedRide;
+}
+
+async function assertNoActiveRide(where: Prisma.RideWhereInput, message: string) {
+  const activeRide = await prisma.ride.findFirst({
+    where: { ...where, status: { in: ACTIVE_STATUSES } },
+    select: { id: true },
+  });
+
+  if (activeRide) {
+    throw new ConflictError(message);
+  }
+}
+
+async function requestRide(actor: Actor, data: RequestRideData) {
+  await assertNoActiveRide({ passengerId: actor.id }, "You already have an active ride");
+
+  const ride = await prisma.ride.create({
+    data: {
+      passengerId: actor.id,
+      pickup: data.pickup,
+      dropoff: data.dropoff,
+      passengerCount: data.passengerCount,
+      notes: data.notes,
+      // Stored explicitly so driverId: null filters match
+      driverId: null,
+    },
+  });
+
+  return {
+    success: true,
+    message: "Ride requested successfully",
+    data: ride,
+  };
+}
+
+async function getRide(id: string, actor: Actor) {
+  const ride = await findRide(id);
+  partyOf(ride, actor);
+
+  return {
+    success: true,
+    message: "Ride retrieved successfully",
+    data: ride,
+  };
+}
+
+// Rides the actor took part in, newest first; drivers see the rides they drove
+async function getHistory(actor: Actor, query: RideHistoryQuery) {
+  const limit = query.limit || 20;
+
+  const where: Prisma.RideWhereInput = {
+    AND: [
+      actor.role === "driver" ? { driverId: actor.id } : { passengerId: actor.id },
+      query.status ? { status: query.status } : {},
+      query.after ? buildCursorWhere("createdAt", "desc", decodeCursor(query.after, "createdAt"), "after") : {},
+    ],
+  };
+
+  const rows = await prisma.ride.findMany({
+    where,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+  });
+
+  const hasMore = rows.length > limit;
+  const data = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    success: true,
+    message: "Ride history retrieved successfully",
+    data,
+    pagination: {
+      limit,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor("createdAt", data[data.length - 1]) : null,
+    },
+  };
+}
+
+// Open requests, oldest first
+async function getAvailableRides(limit = 20) {
+  const rides = await prisma.ride.findMany({
+    where: { status: "requested", driverId: null },
+    orderBy: [{ requestedAt: "asc" }, { id: "asc" }],
+    take: limit,
+  });
+
+  return {
+    success: true,
+    message: "Available rides retrieved successfully",
+    data: rides,
+  };
+}
+
+async function acceptRide(id: string, actor: Actor) {
+  const ride = await findRide(id);
+
+  await assertNoActiveRide({ driverId: actor.id }, "You already have an active ride");
+
+  const acceptedRide = await moveRide(ride, "accepted", { driverId: actor.id });
+
+  // A driver on a ride isn't waiting at a terminal any more
+  await queueService.removeDriver(actor.id);
+
+  return {
+    success: true,
+    message: "Ride accepted successfully",
+    data: acceptedRide,
+  };
+}
+
+// Steps after acceptance can only be taken by the assigned driver
+async function findAssignedRide(id: string, actor: Actor) {
+  const ride = await findRide(id);
+
+  if (ride.driverId !== actor.id) {
+    throw new ForbiddenError("This ride is not assigned to you");
+  }
+
+  return ride;
+}
+
+async function arriveRide(id: string, actor: Actor) {
+  const ride = await findAssignedRide(id, actor);
+  const arrivedRide = await moveRide(ride, "arrived");
+
+  return {
+    success: true,
+    message: "Arrival recorded successfully",
+    data: arrivedRide,
+  };
+}
+
+async function startRide(id: string, actor: Actor) {
+  const ride = await findAssignedRide(id, actor);
+  const startedRide = await moveRide(ride, "in_progress");
+
+  return {
+    success: true,
+    message: "Ride started successfully",
+    data: startedRide,
+  };
+}
+
+async function completeRide(id: string, actor: Actor, fare?: number) {
+  const ride = await findAssignedRide(id, actor);
+  const completedRide = await moveRide(ride, "completed", fare !== undefined ? { fare } : {});
+
+  return {
+    success: true,
+    message: "Ride completed successfully",
+    data: completedRide,
+  };
+}
+
+async function cancelRide(id: string, actor: Actor, reason?: string) {
+  const ride = await findRide(id);
+  const party = partyOf(ride, actor);
+
+  if (!CANCELLABLE_STATUSES[party].includes(ride.status)) {
+    throw new ConflictError(`A ${party} cannot cancel a ${ride.status} ride`);
+  }
+
+  // Passengers may change their mind; drivers and admins have to say why
+  if (party !== "passenger" && !reason) {
+    throw new BadRequestError("A reason is required to cancel this ride");
+  }
+
+  const cancelledRide = await moveRide(ride, "cancelled", {
+    cancelledBy: party,
+    cancelledById: actor.id,
+    cancelReason: reason,
+  });
+
+  return {
+    success: true,
+    message: "Ride cancelled successfully",
+    data: cancelledRide,
+  };
+}
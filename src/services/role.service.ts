@@ -0,0 +1,195 @@
+import { prisma } from "../lib/prisma";
+import { DEFAULT_ROLE_POLICIES, ensureRolePolicies, loadRolePolicies, rbac, requireAdminPermission } from "../middleware/rbac";
+import { Actor, CreateRoleData, PolicyRule, RequestContext, Role, UpdateRoleData } from "../types";
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from "../utils/errors";
+import auditService from "./audit.service";
+
+const roleService = {
+  getAllRoles,
+  getRoleById,
+  createRole,
+  updateRole,
+  deleteRole,
+  seedDefaultRoles,
+  assertRoleExists,
+};
+
+export default roleService;
+
+// The admin role must always keep admin:all, otherwise nobody could repair it
+const assertAdminKeepsAdminAll = (name: Role, permissions: PolicyRule[]) => {
+  if (name === "admin" && !permissions.some((rule) => rule.action === "admin:all" && !rule.when)) {
+    throw new BadRequestError("The admin role must keep the admin:all permission");
+  }
+};
+
+// Roles are data, so validators can only check the shape of a role name
+async function assertRoleExists(role: Role | undefined) {
+  if (role === undefined) return;
+
+  await ensureRolePolicies();
+
+  if (!rbac.roleExists(role)) {
+    throw new ValidationError([{ location: "body", field: "role", message: `role ${role} does not exist` }]);
+  }
+}
+
+async function getAllRoles(actor?: Actor) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const roles = await prisma.role.findMany({ orderBy: { name: "asc" } });
+
+  return {
+    success: true,
+    message: "Roles retrieved successfully",
+    data: roles,
+  };
+}
+
+async function getRoleById(id: string, actor?: Actor) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const role = await prisma.role.findUnique({ where: { id } });
+
+  if (!role) {
+    throw new NotFoundError("Role not found");
+  }
+
+  return {
+    success: true,
+    message: "Role retrieved successfully",
+    data: role,
+  };
+}
+
+async function createRole(data: CreateRoleData, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const existingRole = await prisma.role.findUnique({ where: { name: data.name } });
+
+  if (existingRole) {
+    throw new ConflictError("Role already exists");
+  }
+
+  assertAdminKeepsAdminAll(data.name, data.permissions);
+
+  const role = await prisma.role.create({
+    data: {
+      name: data.name,
+      description: data.description,
+      permissions: data.permissions,
+    },
+  });
+
+  await refreshPolicies();
+
+  await auditService.record({ action: "role.create", actor, targetType: "role", targetId: role.id, after: role, context });
+
+  return {
+    success: true,
+    message: "Role created successfully",
+    data: role,
+  };
+}
+
+// Role names are referenced by users and policy conditions, so they can't be renamed
+async function updateRole(id: string, data: UpdateRoleData, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const existingRole = await prisma.role.findUnique({ where: { id } });
+
+  if (!existingRole) {
+    throw new NotFoundError("Role not found");
+  }
+
+  if (data.permissions) {
+    assertAdminKeepsAdminAll(existingRole.name, data.permissions);
+  }
+
+  const role = await prisma.role.update({
+    where: { id },
+    data: {
+      description: data.description,
+      permissions: data.permissions,
+    },
+  });
+
+  await refreshPolicies();
+
+  await auditService.record({
+    action: "role.update",
+    actor,
+    targetType: "role",
+    targetId: id,
+    before: existingRole,
+    after: role,
+    context,
+  });
+
+  return {
+    success: true,
+    message: "Role updated successfully",
+    data: role,
+  };
+}
+
+async function deleteRole(id: string, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const existingRole = await prisma.role.findUnique({ where: { id } });
+
+  if (!existingRole) {
+    throw new NotFoundError("Role not found");
+  }
+
+  if (existingRole.isSystem) {
+    throw new BadRequestError("System roles cannot be deleted");
+  }
+
+  const assignedUsers = await prisma.user.count({ where: { role: existingRole.name } });
+
+  if (assignedUsers > 0) {
+    throw new ConflictError(`Role is assigned to ${assignedUsers} user(s)`);
+  }
+
+  await prisma.role.delete({ where: { id } });
+
+  await refreshPolicies();
+
+  await auditService.record({ action: "role.delete", actor, targetType: "role", targetId: id, before: existingRole, context });
+
+  return {
+    success: true,
+    message: "Role deleted successfully",
+  };
+}
+
+// Create the built-in roles that don't exist yet; existing roles are left as edited
+async function seedDefaultRoles() {
+  const created: Role[] = [];
+
+  for (const [name, permissions] of Object.entries(DEFAULT_ROLE_POLICIES)) {
+    const existingRole = await prisma.role.findUnique({ where: { name } });
+    if (existingRole) continue;
+
+    await prisma.role.create({
+      data: { name, permissions, isSystem: true },
+    });
+    created.push(name);
+  }
+
+  await refreshPolicies();
+
+  return created;
+}
+
+// Changes apply on this instance right away; other instances pick them up after the cache TTL
+async function refreshPolicies() {
+  rbac.invalidate();
+  await loadRolePolicies();
+}
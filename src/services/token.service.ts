@@ -0,0 +1,176 @@
+import { prisma } from "../lib/prisma";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { UnauthorizedError } from "../utils/errors";
+
+const ACCESS_TOKEN_EXPIRES_IN = (process.env.JWT_ACCESS_EXPIRES_IN || "15m") as jwt.SignOptions["expiresIn"];
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+const STREAM_TOKEN_TTL_SECONDS = Number(process.env.STREAM_TOKEN_TTL_SECONDS) || 60;
+
+const tokenService = {
+  issueTokens,
+  issueStreamToken,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeFamily,
+  revokeAllForUser,
+  isSessionActive,
+};
+
+export default tokenService;
+
+export interface AccessTokenPayload {
+  userId: string;
+  sid: string;
+  // Set on tokens that may only be used for one thing, e.g. opening an event stream
+  purpose?: "event_stream";
+}
+
+// Refresh and one-time tokens are only ever stored as a SHA-256 hash
+export const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+const signAccessToken = (userId: string, family: string) =>
+  jwt.sign({ userId, sid: family } as AccessTokenPayload, process.env.JWT_SECRET || "", {
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN,
+  });
+
+async function createRefreshToken(userId: string, family: string) {
+  const refreshToken = crypto.randomBytes(48).toString("hex");
+
+  const record = await prisma.refreshToken.create({
+    data: {
+      userId,
+      family,
+      tokenHash: hashToken(refreshToken),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+      // Stored explicitly so revokedAt: null filters match
+      revokedAt: null,
+      replacedBy: null,
+    },
+  });
+
+  return { refreshToken, record };
+}
+
+// Start a new session (token family) and return an access/refresh token pair
+async function issueTokens(userId: string) {
+  const family = crypto.randomUUID();
+  const { refreshToken } = await createRefreshToken(userId, family);
+
+  return {
+    token: signAccessToken(userId, family),
+    refreshToken,
+  };
+}
+
+// Short-lived token for opening an event stream in the session the caller is using.
+// EventSource can't send an Authorization header, so it goes in the URL instead.
+function issueStreamToken(userId: string, sessionId: string) {
+  const token = jwt.sign({ userId, sid: sessionId, purpose: "event_stream" } as AccessTokenPayload, process.env.JWT_SECRET || "", {
+    expiresIn: STREAM_TOKEN_TTL_SECONDS,
+  });
+
+  return {
+    success: true,
+    message: "Stream token issued successfully",
+    data: { token, expiresIn: STREAM_TOKEN_TTL_SECONDS },
+  };
+}
+
+// Exchange a refresh token for a new pair. Presenting a token that was already
+// rotated is treated as theft and revokes the whole family.
+async function rotateRefreshToken(refreshToken: string) {
+  const existing = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { user: { select: { id: true, isDeleted: true, status: true } } },
+  });
+
+  if (!existing) {
+    throw new UnauthorizedError("Invalid refresh token", "INVALID_TOKEN");
+  }
+
+  if (existing.revokedAt) {
+    if (existing.replacedBy) {
+      await revokeFamily(existing.family);
+      throw new UnauthorizedError("Refresh token reuse detected, session revoked", "TOKEN_REUSED");
+    }
+    throw new UnauthorizedError("Refresh token has been revoked", "SESSION_REVOKED");
+  }
+
+  if (existing.expiresAt <= new Date()) {
+    throw new UnauthorizedError("Refresh token has expired", "INVALID_TOKEN");
+  }
+
+  if (existing.user.isDeleted || existing.user.status !== "active") {
+    await revokeFamily(existing.family);
+    throw new UnauthorizedError("Invalid refresh token", "INVALID_TOKEN");
+  }
+
+  const { refreshToken: nextRefreshToken, record } = await createRefreshToken(existing.userId, existing.family);
+
+  // Only the first concurrent rotation wins; the loser is treated as reuse
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: existing.id, revokedAt: null },
+    data: { revokedAt: new Date(), replacedBy: record.id },
+  });
+
+  if (count === 0) {
+    await revokeFamily(existing.family);
+    throw new UnauthorizedError("Refresh token reuse detected, session revoked", "TOKEN_REUSED");
+  }
+
+  return {
+    success: true,
+    message: "Token refreshed successfully",
+    data: {
+      userId: existing.userId,
+      token: signAccessToken(existing.userId, existing.family),
+      refreshToken: nextRefreshToken,
+    },
+  };
+}
+
+// Revoke the session a refresh token belongs to (logout)
+async function revokeRefreshToken(refreshToken: string) {
+  const existing = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+  });
+
+  if (!existing) {
+    throw new UnauthorizedError("Invalid refresh token", "INVALID_TOKEN");
+  }
+
+  await revokeFamily(existing.family);
+
+  return { success: true, message: "Logged out successfully", userId: existing.userId };
+}
+
+async function revokeFamily(family: string) {
+  await prisma.refreshToken.updateMany({
+    where: { family, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+// Revoke every session of a user, e.g. when they are banned or deleted,
+// optionally keeping the session the request came from
+async function revokeAllForUser(userId: string, exceptFamily?: string) {
+  await prisma.refreshToken.updateMany({
+    where: { userId, revokedAt: null, ...(exceptFamily ? { family: { not: exceptFamily } } : {}) },
+    data: { revokedAt: new Date() },
+  });
+}
+
+// A session stays active while its family still holds a live refresh token
+async function isSessionActive(family: string) {
+  const liveToken = await prisma.refreshToken.findFirst({
+    where: {
+      family,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    select: { id: true },
+  });
+
+  return !!liveToken;
+}
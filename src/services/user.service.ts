@@ -1,9 +1,27 @@
 import { prisma } from "../lib/prisma";
-import { UpdateUserData, CreateUserData, Role } from "../types";
-import { requireAdminPermission, requireWritePermission, requireDeletePermission } from "../middleware/rbac";
-import { Prisma } from "@prisma/client";
-import jwt from "jsonwebtoken";
+import { Actor, RequestContext, UpdateUserData, UpdateProfileData, CreateUserData, FilterFieldSpecs, RawFilters, NotificationType } from "../types";
+import {
+  can,
+  requireAdminPermission,
+  requireWritePermission,
+  requireDeletePermission,
+  requireVehiclePermission,
+  userResource,
+} from "../middleware/rbac";
+import { Prisma, Status as StatusEnum, Gender as GenderEnum } from "@prisma/client";
+import tokenService from "./token.service";
+import roleService from "./role.service";
+import auditService from "./audit.service";
+import realtimeService, { topics } from "./realtime.service";
+import queueService from "./queue.service";
+import vehicleService from "./vehicle.service";
+import notificationService from "./notification.service";
 import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError, UnauthorizedError } from "../utils/errors";
+import { buildFilterConditions } from "../utils/query.filter";
+import { buildCursorWhere, decodeCursor, encodeCursor } from "../utils/cursor";
+import { applyUserProjection, buildUserProjection, canViewUserField, Viewer } from "../utils/user.projection";
 
 const userService = {
   getAllUsers,
@@ -11,316 +29,813 @@ const userService = {
   createUserAdmin,
   updateUser,
   deleteUser,
+  getProfile,
+  updateProfile,
+  changePassword,
+  deactivateAccount,
+  getDeletedUsers,
+  restoreUser,
+  purgeUser,
+  applyRetention,
+  getOperatorDrivers,
 };
 
 export default userService;
 
-async function getAllUsers(params?: {
+// Fields that may be used in filter_* query params; anything else (e.g. password) is rejected
+const USER_FILTER_FIELDS: FilterFieldSpecs = {
+  email: { type: "string" },
+  firstName: { type: "string" },
+  lastName: { type: "string" },
+  middleName: { type: "string", optional: true },
+  role: { type: "string" },
+  status: { type: "enum", values: Object.values(StatusEnum) },
+  avatar: { type: "string", optional: true },
+  emailVerifiedAt: { type: "date", optional: true },
+  createdAt: { type: "date" },
+  updatedAt: { type: "date" },
+  ratingAverage: { type: "number", optional: true },
+  ratingCount: { type: "number", optional: true },
+  "metadata.address": { type: "string", optional: true },
+  "metadata.phone": { type: "string", optional: true },
+  "metadata.age": { type: "number", optional: true },
+  "metadata.gender": { type: "enum", values: Object.values(GenderEnum), optional: true },
+};
+
+// Filters are limited to fields the viewer may see, so they can't be used as an oracle
+const visibleFilterFields = (viewer: Viewer): FilterFieldSpecs =>
+  Object.fromEntries(Object.entries(USER_FILTER_FIELDS).filter(([path]) => canViewUserField(path, viewer)));
+
+const parseSort = (sort: string): Record<string, Prisma.SortOrder> => {
+  try {
+    return JSON.parse(sort);
+  } catch (error) {
+    throw new BadRequestError("Sort must be a field name or a JSON object");
+  }
+};
+
+// Everything a user may see on their own record
+const PROFILE_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  middleName: true,
+  email: true,
+  role: true,
+  status: true,
+  avatar: true,
+  metadata: true,
+  emailVerifiedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+// What admins see in the deleted-users listing
+const DELETED_USER_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  middleName: true,
+  email: true,
+  deletedEmail: true,
+  role: true,
+  status: true,
+  deletedAt: true,
+  deletedBy: true,
+  anonymizedAt: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
+
+// Deleted accounts give up their address so it can be registered again
+const deletedEmailPlaceholder = (id: string) => `deleted+${id}@deleted.invalid`;
+
+// What to tell a user whose status an admin changed
+const STATUS_NOTIFICATIONS: Record<StatusEnum, NotificationType> = {
+  active: "account.reactivated",
+  inactive: "account.deactivated",
+  banned: "account.banned",
+};
+
+// Required, top-level fields usable as a cursor sort key
+const CURSOR_SORT_FIELDS = ["createdAt", "updatedAt", "email", "firstName", "lastName", "role", "status"];
+
+async function getAllUsers(params: {
   page?: number;
   limit?: number;
   sort?: string;
   order?: "asc" | "desc";
   fields?: string;
   query?: string;
-  filters?: Record<string, any>;
-}) {
-  try {
-    const { page = 1, limit = 10, sort, order = "desc", fields, query, filters } = params || {};
+  filters?: RawFilters;
+  after?: string;
+  before?: string;
+  count?: boolean;
+  // Narrows the users that can be returned at all, e.g. to an operator's drivers
+  scope?: Prisma.UserWhereInput;
+}, viewer: Viewer) {
+  const { page = 1, limit = 10, sort, order = "desc", fields, query, filters, after, before, count = true } = params;
+
+  const isCursorMode = !!(after || before);
+  const skip = isCursorMode ? 0 : (page - 1) * limit;
+
+  // Sorting on hidden fields would leak their order (and their values through cursors)
+  const sortObject = sort?.startsWith("{") ? parseSort(sort) : undefined;
+  const hiddenSortKeys = (sortObject ? Object.keys(sortObject) : sort ? [sort] : []).filter(
+    (key) => !canViewUserField(key, viewer)
+  );
+  if (hiddenSortKeys.length > 0) {
+    throw new BadRequestError(`Cannot sort by: ${hiddenSortKeys.join(", ")}`);
+  }
+
+  // Cursors need a single, non-null sort key
+  const sortField = !sort ? "createdAt" : CURSOR_SORT_FIELDS.includes(sort) ? sort : undefined;
+  if (isCursorMode && !sortField) {
+    throw new BadRequestError(`Cursor pagination only supports sorting by: ${CURSOR_SORT_FIELDS.join(", ")}`);
+  }
 
-    const skip = (page - 1) * limit;
+  // Build where clause
+  const whereClause: Prisma.UserWhereInput = {
+    isDeleted: false,
+    ...(query
+      ? {
+          OR: [
+            { firstName: { contains: query, mode: "insensitive" } },
+            { lastName: { contains: query, mode: "insensitive" } },
+            { middleName: { contains: query, mode: "insensitive" } },
+            // Only search fields the viewer could see anyway
+            ...(canViewUserField("email", viewer) ? [{ email: { contains: query, mode: "insensitive" as const } }] : []),
+          ],
+        }
+      : {}),
+    // Apply the caller's scope and typed, whitelisted filters
+    AND: [params.scope ?? {}, ...(filters ? buildFilterConditions(filters, visibleFilterFields(viewer)) : [])],
+  };
+
+  const cursorWhere =
+    isCursorMode && sortField
+      ? buildCursorWhere(sortField, order, decodeCursor((after || before) as string, sortField), after ? "after" : "before")
+      : undefined;
+
+  // Paging backwards reads in reverse order and flips the page afterwards
+  const queryOrder = before ? (order === "asc" ? "desc" : "asc") : order;
+
+  const findManyQuery: Prisma.UserFindManyArgs = {
+    where: cursorWhere ? { AND: [whereClause, cursorWhere] } : whereClause,
+    skip,
+    // Fetch one extra record to know whether another page exists
+    take: limit + 1,
+    orderBy: sortField
+      ? [{ [sortField]: queryOrder }, { id: queryOrder }]
+      : sortObject ?? { [sort as string]: order },
+  };
+
+  // Role-aware field selection - default to only "id" if no fields specified
+  const { select: fieldSelections, selfOnly } = buildUserProjection(fields, viewer);
+
+  // The sort key is needed to build cursors even when it wasn't requested
+  const stripSortField = !!sortField && !fieldSelections[sortField];
+  findManyQuery.select = sortField ? { ...fieldSelections, [sortField]: true } : fieldSelections;
+
+  const [rows, total] = await Promise.all([
+    prisma.user.findMany(findManyQuery),
+    count ? prisma.user.count({ where: whereClause }) : Promise.resolve(undefined),
+  ]);
+
+  const hasMore = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+  if (before) pageRows.reverse();
+
+  const first = pageRows[0];
+  const last = pageRows[pageRows.length - 1];
+
+  // Next page exists if we read past the limit going forward, or if we came from a later page
+  const hasNext = before ? true : hasMore;
+  const hasPrev = before ? hasMore : !!after || page > 1;
+
+  const nextCursor = sortField && last && hasNext ? encodeCursor(sortField, last) : null;
+  const prevCursor = sortField && first && hasPrev ? encodeCursor(sortField, first) : null;
+
+  const users = pageRows.map((user) => {
+    const { [sortField as string]: _sortValue, ...rest } = user as Record<string, any>;
+    return applyUserProjection(stripSortField ? rest : user, selfOnly, viewer);
+  });
+
+  return {
+    success: true,
+    message: "Users retrieved successfully",
+    data: users,
+    pagination: isCursorMode
+      ? {
+          ...(total !== undefined ? { total } : {}),
+          limit,
+          hasMore: hasNext,
+          nextCursor,
+          prevCursor,
+        }
+      : {
+          ...(total !== undefined ? { total, totalPages: Math.ceil(total / limit) } : {}),
+          page,
+          limit,
+          hasMore,
+          nextCursor,
+          prevCursor,
+        },
+  };
+}
 
-    // Build where clause
-    const whereClause: Prisma.UserWhereInput = {
+async function getUserById(id: string, fields: string | undefined, viewer: Viewer) {
+  const query: Prisma.UserFindUniqueArgs = {
+    where: {
+      id,
       isDeleted: false,
-      ...(query
-        ? {
-            OR: [
-              { firstName: { contains: query, mode: "insensitive" } },
-              { lastName: { contains: query, mode: "insensitive" } },
-              { middleName: { contains: query, mode: "insensitive" } },
-              { email: { contains: query, mode: "insensitive" } },
-            ],
-          }
-        : {}),
-      // Apply dynamic filters
-      ...(filters || {}),
-    };
-
-    const findManyQuery: Prisma.UserFindManyArgs = {
-      where: whereClause,
-      skip,
-      take: limit,
-      orderBy: sort
-        ? typeof sort === "string" && !sort.startsWith("{")
-          ? { [sort]: order }
-          : JSON.parse(sort)
-        : { createdAt: order as Prisma.SortOrder },
-    };
-
-    // Handle field selection - default to only "id" if no fields specified
-    const fieldSelections = fields
-      ? fields.split(",").reduce(
-          (acc, field) => {
-            const parts = field.trim().split(".");
-            if (parts.length > 1) {
-              const [parent, ...children] = parts;
-              acc[parent] = acc[parent] || { select: {} };
-
-              let current = acc[parent].select;
-              for (let i = 0; i < children.length - 1; i++) {
-                current[children[i]] = current[children[i]] || { select: {} };
-                current = current[children[i]].select;
-              }
-              current[children[children.length - 1]] = true;
-            } else {
-              acc[parts[0]] = true;
-            }
-            return acc;
-          },
-          { id: true } as Record<string, any>
-        )
-      : { id: true };
-
-    findManyQuery.select = fieldSelections;
-
-    const [users, total] = await Promise.all([
-      prisma.user.findMany(findManyQuery),
-      prisma.user.count({ where: whereClause }),
-    ]);
-
-    return {
-      success: true,
-      message: "Users retrieved successfully",
-      data: users,
-      pagination: {
-        total,
-        page,
-        limit,
-        totalPages: Math.ceil(total / limit),
-        hasMore: skip + limit < total,
-      },
-    };
-  } catch (error) {
-    console.error("Get users error:", error);
-    return {
-      success: false,
-      message: "Server error",
-    };
+    },
+  };
+
+  // Role-aware field selection - default to only "id" if no fields specified
+  const { select: fieldSelections, selfOnly } = buildUserProjection(fields, viewer);
+
+  query.select = fieldSelections;
+
+  const user = await prisma.user.findUnique(query);
+
+  if (!user) {
+    throw new NotFoundError("User not found");
   }
+
+  return {
+    success: true,
+    message: "User retrieved successfully",
+    data: applyUserProjection(user, selfOnly, viewer),
+  };
 }
 
-async function getUserById(id: string, fields?: string) {
-  try {
-    const query: Prisma.UserFindUniqueArgs = {
-      where: {
-        id,
-        isDeleted: false,
-      },
-    };
-
-    // Handle field selection - default to only "id" if no fields specified
-    const fieldSelections = fields
-      ? fields.split(",").reduce(
-          (acc, field) => {
-            const parts = field.trim().split(".");
-            if (parts.length > 1) {
-              const [parent, ...children] = parts;
-              acc[parent] = acc[parent] || { select: {} };
-
-              let current = acc[parent].select;
-              for (let i = 0; i < children.length - 1; i++) {
-                current[children[i]] = current[children[i]] || { select: {} };
-                current = current[children[i]].select;
-              }
-              current[children[children.length - 1]] = true;
-            } else {
-              acc[parts[0]] = true;
-            }
-            return acc;
-          },
-          { id: true } as Record<string, any>
-        )
-      : { id: true };
-
-    query.select = fieldSelections;
-
-    const user = await prisma.user.findUnique(query);
-
-    if (!user) {
-      return {
-        success: false,
-        message: "User not found",
-      };
-    }
+async function createUserAdmin(data: CreateUserData, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
 
-    return {
-      success: true,
-      message: "User retrieved successfully",
-      data: user,
-    };
-  } catch (error) {
-    console.error("Get user error:", error);
-    return {
-      success: false,
-      message: "Server error",
-    };
+  // Check if user already exists
+  const existingUser = await prisma.user.findUnique({
+    where: { email: data.email },
+  });
+
+  if (existingUser) {
+    throw new ConflictError("User already exists");
   }
+
+  await roleService.assertRoleExists(data.role);
+
+  // Hash password
+  const salt = await bcrypt.genSalt(10);
+  const hashedPassword = await bcrypt.hash(data.password, salt);
+
+  // Create user
+  const user = await prisma.user.create({
+    data: {
+      firstName: data.firstName,
+      lastName: data.lastName,
+      middleName: data.middleName,
+      email: data.email,
+      password: hashedPassword,
+      role: data.role,
+      status: data.status,
+      metadata: data.metadata,
+      // Admins vouch for the accounts they create
+      emailVerifiedAt: new Date(),
+    },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      middleName: true,
+      email: true,
+      role: true,
+      status: true,
+      metadata: true,
+      createdAt: true,
+    },
+  });
+
+  await auditService.record({ action: "user.create", actor, targetType: "user", targetId: user.id, after: user, context });
+
+  // Create access and refresh tokens
+  const { token, refreshToken } = await tokenService.issueTokens(user.id);
+
+  return { user, token, refreshToken, success: true, message: "User created successfully" };
 }
 
-async function createUserAdmin(data: CreateUserData, userRole?: Role) {
-  try {
-    // RBAC Check - require admin permission
-    requireAdminPermission(userRole);
+async function updateUser(id: string, data: UpdateUserData, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require write permission
+  requireWritePermission(actor);
 
-    // Check if user already exists
-    const existingUser = await prisma.user.findUnique({
-      where: { email: data.email },
-    });
+  // Check if user exists
+  const existingUser = await prisma.user.findUnique({
+    where: {
+      id,
+      isDeleted: false,
+    },
+  });
 
-    if (existingUser) {
-      return { success: false, message: "User already exists" };
-    }
+  if (!existingUser) {
+    throw new NotFoundError("User not found");
+  }
+
+  // RBAC Check - write permission on this user
+  requireWritePermission(actor, userResource(existingUser));
+
+  // Account-level fields stay admin-only, even on one's own record
+  const privileged = (["email", "password", "role", "status"] as const).filter((field) => data[field] !== undefined);
+  if (privileged.length > 0 && !can(actor, "admin:all")) {
+    throw new ForbiddenError(`Only admins can change ${privileged.join(", ")}`);
+  }
+
+  await roleService.assertRoleExists(data.role);
+
+  // Prepare update data
+  const updateData = { ...data };
 
-    // Hash password
+  // Hash password if provided
+  if (data.password) {
     const salt = await bcrypt.genSalt(10);
-    const hashedPassword = await bcrypt.hash(data.password, salt);
+    updateData.password = await bcrypt.hash(data.password, salt);
+  }
 
-    // Create user
-    const user = await prisma.user.create({
-      data: {
-        firstName: data.firstName,
-        lastName: data.lastName,
-        middleName: data.middleName,
-        email: data.email,
-        password: hashedPassword,
-        role: data.role,
-        status: data.status,
-        metadata: data.metadata,
-      },
-      select: {
-        id: true,
-        firstName: true,
-        lastName: true,
-        middleName: true,
-        email: true,
-        metadata: true,
-        createdAt: true,
-      },
-    });
+  // Update user
+  const updatedUser = await prisma.user.update({
+    where: { id },
+    data: {
+      ...updateData,
+      updatedAt: new Date(),
+    },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      middleName: true,
+      email: true,
+      role: true,
+      status: true,
+      avatar: true,
+      metadata: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+
+  // Password changes and deactivated or banned users end every open session
+  if (data.password || (data.status && data.status !== "active")) {
+    await tokenService.revokeAllForUser(id);
+  }
 
-    // Create JWT token
-    const token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || "", { expiresIn: "7d" });
+  // Deactivated or banned drivers lose their place in any terminal queue and their vehicle
+  if (data.status && data.status !== "active") {
+    await queueService.removeDriver(id);
+    await vehicleService.releaseDriver(id, `Driver set to ${data.status}`, actor);
+  }
 
-    return { user, token, success: true, message: "User created successfully" };
-  } catch (error) {
-    console.error("Register error:", error);
-    return { success: false, message: "Server error" };
+  await auditService.record({
+    action: "user.update",
+    actor,
+    targetType: "user",
+    targetId: id,
+    before: existingUser,
+    after: { ...updatedUser, ...(updateData.password ? { password: updateData.password } : {}) },
+    context,
+  });
+
+  if (updatedUser.status !== existingUser.status) {
+    await realtimeService.publish(topics.userStatus(id), "user.status", { status: updatedUser.status, isDeleted: false });
+    await notificationService.notify(id, STATUS_NOTIFICATIONS[updatedUser.status]);
   }
+
+  if (data.password) {
+    await notificationService.notify(id, "account.password_changed");
+  }
+
+  return {
+    success: true,
+    message: "User updated successfully",
+    data: updatedUser,
+  };
 }
 
-async function updateUser(id: string, data: UpdateUserData, userRole?: Role) {
-  try {
-    // RBAC Check - require write permission
-    requireWritePermission(userRole);
-
-    // Check if user exists
-    const existingUser = await prisma.user.findUnique({
-      where: {
-        id,
-        isDeleted: false,
-      },
-    });
+async function deleteUser(id: string, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require delete permission
+  requireDeletePermission(actor);
 
-    if (!existingUser) {
-      return {
-        success: false,
-        message: "User not found",
-      };
-    }
+  // Check if user exists
+  const existingUser = await prisma.user.findUnique({
+    where: {
+      id,
+      isDeleted: false,
+    },
+  });
 
-    // Prepare update data
-    const updateData = { ...data };
+  if (!existingUser) {
+    throw new NotFoundError("User not found");
+  }
 
-    // Hash password if provided
-    if (data.password) {
-      const salt = await bcrypt.genSalt(10);
-      updateData.password = await bcrypt.hash(data.password, salt);
-    }
+  // RBAC Check - delete permission on this user
+  requireDeletePermission(actor, userResource(existingUser));
+
+  // Soft delete user
+  const deletedUser = await prisma.user.update({
+    where: { id },
+    data: {
+      isDeleted: true,
+      deletedAt: new Date(),
+      deletedBy: actor?.id,
+      deletedEmail: existingUser.email,
+      email: deletedEmailPlaceholder(id),
+      updatedAt: new Date(),
+    },
+  });
+
+  await tokenService.revokeAllForUser(id);
+  await queueService.removeDriver(id);
+  await vehicleService.releaseDriver(id, "Driver deleted", actor);
+
+  await auditService.record({
+    action: "user.delete",
+    actor,
+    targetType: "user",
+    targetId: id,
+    before: { isDeleted: false },
+    after: { isDeleted: true, deletedAt: deletedUser.deletedAt },
+    context,
+  });
+
+  await realtimeService.publish(topics.userStatus(id), "user.status", { status: deletedUser.status, isDeleted: true });
+
+  return {
+    success: true,
+    message: "User deleted successfully",
+  };
+}
 
-    // Update user
-    const updatedUser = await prisma.user.update({
-      where: { id },
-      data: {
-        ...updateData,
-        updatedAt: new Date(),
-      },
-      select: {
-        id: true,
-        firstName: true,
-        lastName: true,
-        middleName: true,
-        email: true,
-        role: true,
-        status: true,
-        avatar: true,
-        metadata: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    });
+async function findActiveUser(id: string) {
+  const user = await prisma.user.findUnique({
+    where: {
+      id,
+      isDeleted: false,
+    },
+  });
 
-    return {
-      success: true,
-      message: "User updated successfully",
-      data: updatedUser,
-    };
-  } catch (error) {
-    console.error("Update user error:", error);
-    return {
-      success: false,
-      message: "Server error",
-    };
+  if (!user) {
+    throw new NotFoundError("User not found");
   }
+
+  return user;
 }
 
-async function deleteUser(id: string, userRole?: Role) {
-  try {
-    // RBAC Check - require delete permission
-    requireDeletePermission(userRole);
-
-    // Check if user exists
-    const existingUser = await prisma.user.findUnique({
-      where: {
-        id,
-        isDeleted: false,
-      },
-    });
+async function getProfile(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: {
+      id: userId,
+      isDeleted: false,
+    },
+    select: PROFILE_SELECT,
+  });
 
-    if (!existingUser) {
-      return {
-        success: false,
-        message: "User not found",
-      };
-    }
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  return {
+    success: true,
+    message: "Profile retrieved successfully",
+    data: user,
+  };
+}
+
+async function updateProfile(userId: string, data: UpdateProfileData, context?: RequestContext) {
+  const existingUser = await findActiveUser(userId);
+
+  // Metadata is merged so partial updates don't wipe the other fields
+  const { metadata, ...profile } = data;
+
+  const updatedUser = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      ...profile,
+      ...(metadata ? { metadata: { ...existingUser.metadata, ...metadata } } : {}),
+    },
+    select: PROFILE_SELECT,
+  });
+
+  await auditService.record({
+    action: "user.profile_update",
+    actor: { id: userId, role: existingUser.role },
+    targetType: "user",
+    targetId: userId,
+    before: existingUser,
+    after: updatedUser,
+    context,
+  });
+
+  return {
+    success: true,
+    message: "Profile updated successfully",
+    data: updatedUser,
+  };
+}
+
+async function changePassword(
+  userId: string,
+  currentPassword: string,
+  newPassword: string,
+  sessionId?: string,
+  context?: RequestContext
+) {
+  const existingUser = await findActiveUser(userId);
+
+  const isMatch = await bcrypt.compare(currentPassword, existingUser.password);
+  if (!isMatch) {
+    throw new UnauthorizedError("Current password is incorrect");
+  }
+
+  // Hash password
+  const salt = await bcrypt.genSalt(10);
+  const hashedPassword = await bcrypt.hash(newPassword, salt);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { password: hashedPassword },
+  });
+
+  // Sign out every other device; the current session stays valid
+  await tokenService.revokeAllForUser(userId, sessionId);
+
+  await auditService.record({
+    action: "user.password_change",
+    actor: { id: userId, role: existingUser.role },
+    targetType: "user",
+    targetId: userId,
+    before: { password: existingUser.password },
+    after: { password: hashedPassword },
+    context,
+  });
+
+  await notificationService.notify(userId, "account.password_changed");
+
+  return {
+    success: true,
+    message: "Password changed successfully",
+  };
+}
+
+async function deactivateAccount(userId: string, password: string, context?: RequestContext) {
+  const existingUser = await findActiveUser(userId);
+
+  const isMatch = await bcrypt.compare(password, existingUser.password);
+  if (!isMatch) {
+    throw new UnauthorizedError("Password is incorrect");
+  }
+
+  // Deactivated accounts can be reactivated by an admin
+  await prisma.user.update({
+    where: { id: userId },
+    data: { status: "inactive" },
+  });
+
+  await tokenService.revokeAllForUser(userId);
+  await queueService.removeDriver(userId);
+  await vehicleService.releaseDriver(userId, "Driver deactivated their account", { id: userId, role: existingUser.role });
+
+  await auditService.record({
+    action: "user.deactivate",
+    actor: { id: userId, role: existingUser.role },
+    targetType: "user",
+    targetId: userId,
+    before: { status: existingUser.status },
+    after: { status: "inactive" },
+    context,
+  });
+
+  await realtimeService.publish(topics.userStatus(userId), "user.status", { status: "inactive", isDeleted: false });
+
+  return {
+    success: true,
+    message: "Account deactivated successfully",
+  };
+}
+
+async function getDeletedUsers(params: { page?: number; limit?: number }, actor?: Actor) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const { page = 1, limit = 10 } = params;
+  const where: Prisma.UserWhereInput = { isDeleted: true };
+
+  const [rows, total] = await Promise.all([
+    prisma.user.findMany({
+      where,
+      select: DELETED_USER_SELECT,
+      orderBy: [{ deletedAt: "desc" }, { id: "desc" }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.user.count({ where }),
+  ]);
+
+  // Show the address the account had, not the placeholder
+  const users = rows.map(({ deletedEmail, ...user }) => ({ ...user, email: deletedEmail ?? user.email }));
+
+  return {
+    success: true,
+    message: "Deleted users retrieved successfully",
+    data: users,
+    pagination: {
+      total,
+      totalPages: Math.ceil(total / limit),
+      page,
+      limit,
+      hasMore: page * limit < total,
+    },
+  };
+}
+
+async function findDeletedUser(id: string) {
+  const user = await prisma.user.findUnique({
+    where: {
+      id,
+      isDeleted: true,
+    },
+  });
+
+  if (!user) {
+    throw new NotFoundError("Deleted user not found");
+  }
+
+  return user;
+}
+
+async function restoreUser(id: string, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
 
-    // Soft delete user
-    await prisma.user.update({
+  const deletedUser = await findDeletedUser(id);
+
+  if (deletedUser.anonymizedAt) {
+    throw new BadRequestError("Anonymized accounts cannot be restored");
+  }
+
+  // Accounts deleted before addresses were released still hold their email
+  const email = deletedUser.deletedEmail ?? deletedUser.email;
+
+  const emailOwner = await prisma.user.findUnique({ where: { email } });
+  if (emailOwner && emailOwner.id !== id) {
+    throw new ConflictError("Email is now used by another account");
+  }
+
+  const restoredUser = await prisma.user.update({
+    where: { id },
+    data: {
+      isDeleted: false,
+      deletedAt: null,
+      deletedBy: null,
+      deletedEmail: null,
+      email,
+    },
+    select: PROFILE_SELECT,
+  });
+
+  await auditService.record({
+    action: "user.restore",
+    actor,
+    targetType: "user",
+    targetId: id,
+    before: { isDeleted: true, deletedAt: deletedUser.deletedAt },
+    after: { isDeleted: false, deletedAt: null },
+    context,
+  });
+
+  await realtimeService.publish(topics.userStatus(id), "user.status", { status: restoredUser.status, isDeleted: false });
+
+  return {
+    success: true,
+    message: "User restored successfully",
+    data: restoredUser,
+  };
+}
+
+// Only soft-deleted users can be purged, so a purge always follows a reviewable delete
+async function purgeUser(id: string, actor?: Actor, context?: RequestContext) {
+  // RBAC Check - require admin permission
+  requireAdminPermission(actor);
+
+  const deletedUser = await findDeletedUser(id);
+
+  // RBAC Check - delete permission on this user
+  requireDeletePermission(actor, userResource(deletedUser));
+
+  await hardDeleteUser(id);
+
+  // The entry records that the account was purged, never what it contained
+  await auditService.record({ action: "user.purge", actor, targetType: "user", targetId: id, context });
+
+  return {
+    success: true,
+    message: "User purged successfully",
+  };
+}
+
+async function hardDeleteUser(id: string) {
+  await vehicleService.releaseDriver(id, "Driver purged");
+
+  await prisma.$transaction([
+    prisma.refreshToken.deleteMany({ where: { userId: id } }),
+    prisma.passwordResetToken.deleteMany({ where: { userId: id } }),
+    prisma.emailVerificationToken.deleteMany({ where: { userId: id } }),
+    prisma.driverProfile.deleteMany({ where: { userId: id } }),
+    prisma.driverLocation.deleteMany({ where: { userId: id } }),
+    prisma.queueEntry.deleteMany({ where: { driverId: id } }),
+    prisma.notification.deleteMany({ where: { userId: id } }),
+    prisma.notificationPreference.deleteMany({ where: { userId: id } }),
+    prisma.user.delete({ where: { id } }),
+  ]);
+}
+
+// Strip personal data but keep the record, so references to the user stay valid
+async function anonymizeUser(id: string) {
+  await vehicleService.releaseDriver(id, "Driver anonymized");
+
+  await prisma.$transaction([
+    prisma.refreshToken.deleteMany({ where: { userId: id } }),
+    prisma.passwordResetToken.deleteMany({ where: { userId: id } }),
+    prisma.emailVerificationToken.deleteMany({ where: { userId: id } }),
+    prisma.driverProfile.deleteMany({ where: { userId: id } }),
+    prisma.driverLocation.deleteMany({ where: { userId: id } }),
+    prisma.queueEntry.deleteMany({ where: { driverId: id } }),
+    prisma.notification.deleteMany({ where: { userId: id } }),
+    prisma.notificationPreference.deleteMany({ where: { userId: id } }),
+    prisma.user.update({
       where: { id },
       data: {
-        isDeleted: true,
-        updatedAt: new Date(),
+        firstName: "Deleted",
+        lastName: "User",
+        middleName: null,
+        avatar: null,
+        metadata: null,
+        emailVerifiedAt: null,
+        deletedEmail: null,
+        email: deletedEmailPlaceholder(id),
+        // Not a bcrypt hash, so no password can ever match
+        password: crypto.randomBytes(32).toString("hex"),
+        anonymizedAt: new Date(),
       },
-    });
+    }),
+  ]);
+}
 
-    return {
-      success: true,
-      message: "User deleted successfully",
-    };
-  } catch (error) {
-    console.error("Delete user error:", error);
-    return {
-      success: false,
-      message: "Server error",
-    };
+// Anonymize or purge accounts deleted more than `days` days ago. Runs in batches;
+// returns how many accounts were processed so callers can loop or log.
+async function applyRetention(days: number, mode: "anonymize" | "purge", batchSize = 100) {
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const expiredUsers = await prisma.user.findMany({
+    where: {
+      isDeleted: true,
+      deletedAt: { lt: cutoff },
+      // anonymizedAt is only written when anonymizing, so it is unset until then
+      ...(mode === "anonymize" ? { OR: [{ anonymizedAt: null }, { anonymizedAt: { isSet: false } }] } : {}),
+    },
+    select: { id: true },
+    take: batchSize,
+  });
+
+  for (const { id } of expiredUsers) {
+    if (mode === "purge") {
+      await hardDeleteUser(id);
+      await auditService.record({ action: "user.purge", targetType: "user", targetId: id });
+    } else {
+      await anonymizeUser(id);
+      await auditService.record({ action: "user.anonymize", targetType: "user", targetId: id });
+    }
   }
+
+  return expiredUsers.length;
+}
+
+// Drivers currently assigned to an operator's vehicles, listed through the same
+// paging, filtering, sorting and field selection as GET /api/user. Operators get
+// their own drivers; admins must say which operator they mean.
+async function getOperatorDrivers(params: Parameters<typeof getAllUsers>[0] & { operatorId?: string }, actor: Actor) {
+  const { operatorId: requestedOperatorId, ...listParams } = params;
+  const operatorId = can(actor, "admin:all") ? requestedOperatorId : actor.id;
+
+  if (!operatorId) {
+    throw new BadRequestError("operatorId is required");
+  }
+
+  // RBAC Check - manage permission for this operator's vehicles
+  requireVehiclePermission(actor, { ownerId: operatorId });
+
+  const vehicles = await prisma.vehicle.findMany({
+    where: { operatorId, currentDriverId: { not: null } },
+    select: { currentDriverId: true },
+  });
+
+  const driverIds = vehicles.map((vehicle) => vehicle.currentDriverId as string);
+
+  return getAllUsers({ ...listParams, scope: { id: { in: driverIds } } }, actor);
 }
@@ -0,0 +1,302 @@
+import { Prisma, Vehicle, VehicleStatus as VehicleStatusEnum } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { can, requireVehiclePermission } from "../middleware/rbac";
+import { Actor, CreateVehicleData, FilterFieldSpecs, ListQueryParams, PolicyResource, RequestContext, UpdateVehicleData } from "../types";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/errors";
+import { buildFilterConditions } from "../utils/query.filter";
+import auditService from "./audit.service";
+
+const vehicleService = {
+  getVehicles,
+  getVehicleById,
+  createVehicle,
+  updateVehicle,
+  assignDriver,
+  unassignDriver,
+  getAssignments,
+  releaseDriver,
+};
+
+export default vehicleService;
+
+// Fields that may be used in filter_* query params
+const VEHICLE_FILTER_FIELDS: FilterFieldSpecs = {
+  operatorId: { type: "string" },
+  plateNumber: { type: "string" },
+  bodyNumber: { type: "string" },
+  franchiseNumber: { type: "string", optional: true },
+  franchiseExpiresAt: { type: "date" },
+  todaName: { type: "string", optional: true },
+  status: { type: "enum", values: Object.values(VehicleStatusEnum) },
+  currentDriverId: { type: "string", optional: true },
+  createdAt: { type: "date" },
+};
+
+const VEHICLE_SORT_FIELDS = ["createdAt", "updatedAt", "plateNumber", "bodyNumber", "franchiseExpiresAt", "status"];
+
+// Vehicles belong to their operator
+const vehicleResource = (vehicle: Vehicle): PolicyResource => ({ ownerId: vehicle.operatorId });
+
+// Operators only ever see their own vehicles; admins see every operator's
+const operatorScope = (actor: Actor) => (can(actor, "admin:all") ? {} : { operatorId: actor.id });
+
+async function findVehicle(id: string, actor: Actor) {
+  const vehicle = await prisma.vehicle.findUnique({ where: { id } });
+
+  if (!vehicle) {
+    throw new NotFoundError("Vehicle not found");
+  }
+
+  // RBAC Check - manage permission on this vehicle
+  requireVehiclePermission(actor, vehicleResource(vehicle));
+
+  return vehicle;
+}
+
+const endAssignment = (vehicle: Vehicle, actor: Actor, reason: string) =>
+  prisma.$transaction([
+    prisma.vehicleAssignment.updateMany({
+      where: { vehicleId: vehicle.id, endedAt: null },
+      data: { endedAt: new Date(), endedBy: actor.id, endReason: reason },
+    }),
+    prisma.vehicle.update({ where: { id: vehicle.id }, data: { currentDriverId: null } }),
+  ]);
+
+// End a driver's open assignment and free their vehicle, e.g. when their account
+// stops being active
+async function releaseDriver(driverId: string, reason: string, actor?: Actor) {
+  await prisma.$transaction([
+    prisma.vehicleAssignment.updateMany({
+      where: { driverId, endedAt: null },
+      data: { endedAt: new Date(), endedBy: actor?.id ?? null, endReason: reason },
+    }),
+    prisma.vehicle.updateMany({ where: { currentDriverId: driverId }, data: { currentDriverId: null } }),
+  ]);
+}
+
+// Paged vehicle listing with the same filter_*, sort and order params as GET /api/user
+async function getVehicles(params: ListQueryParams, actor: Actor) {
+  // RBAC Check - require vehicle permission
+  requireVehiclePermission(actor);
+
+  const { page = 1, limit = 10, sort = "createdAt", order = "desc", filters } = params;
+
+  if (!VEHICLE_SORT_FIELDS.includes(sort)) {
+    throw new BadRequestError(`Vehicles can only be sorted by: ${VEHICLE_SORT_FIELDS.join(", ")}`);
+  }
+
+  const where: Prisma.VehicleWhereInput = {
+    AND: [operatorScope(actor), ...(filters ? buildFilterConditions(filters, VEHICLE_FILTER_FIELDS) : [])],
+  };
+
+  const [vehicles, total] = await Promise.all([
+    prisma.vehicle.findMany({
+      where,
+      orderBy: [{ [sort]: order }, { id: order }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.vehicle.count({ where }),
+  ]);
+
+  return {
+    success: true,
+    message: "Vehicles retrieved successfully",
+    data: vehicles,
+    pagination: {
+      total,
+      totalPages: Math.ceil(total / limit),
+      page,
+      limit,
+      hasMore: page * limit < total,
+    },
+  };
+}
+
+async function getVehicleById(id: string, actor: Actor) {
+  const vehicle = await findVehicle(id, actor);
+
+  return {
+    success: true,
+    message: "Vehicle retrieved successfully",
+    data: vehicle,
+  };
+}
+
+async function createVehicle(data: CreateVehicleData, actor: Actor, context?: RequestContext) {
+  const isAdmin = can(actor, "admin:all");
+  const operatorId = isAdmin ? data.operatorId : actor.id;
+
+  if (!operatorId) {
+    throw new BadRequestError("operatorId is required");
+  }
+
+  // RBAC Check - manage permission for this operator's vehicles
+  requireVehiclePermission(actor, { ownerId: operatorId });
+
+  if (isAdmin) {
+    const operator = await prisma.user.findUnique({ where: { id: operatorId, isDeleted: false }, select: { role: true } });
+    if (operator?.role !== "operator") {
+      throw new BadRequestError("operatorId must belong to an operator");
+    }
+  }
+
+  const vehicle = await prisma.vehicle.create({
+    data: { ...data, operatorId, currentDriverId: null },
+  });
+
+  await auditService.record({ action: "vehicle.create", actor, targetType: "vehicle", targetId: vehicle.id, after: vehicle, context });
+
+  return {
+    success: true,
+    message: "Vehicle created successfully",
+    data: vehicle,
+  };
+}
+
+// Taking a vehicle out of service ends its current assignment
+async function updateVehicle(id: string, data: UpdateVehicleData, actor: Actor, context?: RequestContext) {
+  const existingVehicle = await findVehicle(id, actor);
+
+  if (data.status && data.status !== "active" && existingVehicle.currentDriverId) {
+    await endAssignment(existingVehicle, actor, `Vehicle set to ${data.status}`);
+  }
+
+  const vehicle = await prisma.vehicle.update({ where: { id }, data });
+
+  await auditService.record({
+    action: "vehicle.update",
+    actor,
+    targetType: "vehicle",
+    targetId: id,
+    before: existingVehicle,
+    after: vehicle,
+    context,
+  });
+
+  return {
+    success: true,
+    message: "Vehicle updated successfully",
+    data: vehicle,
+  };
+}
+
+// Put an approved driver on an active vehicle. A driver drives one vehicle at a time,
+// and a vehicle has one driver. Concurrent assignments can't break either rule: the
+// partial unique index on open assignments lets a driver hold only one, and the
+// vehicle update is conditional on the vehicle being free.
+async function assignDriver(id: string, driverId: string, actor: Actor, context?: RequestContext) {
+  const vehicle = await findVehicle(id, actor);
+
+  if (vehicle.status !== "active") {
+    throw new BadRequestError(`Cannot assign a driver to a vehicle in ${vehicle.status}`);
+  }
+
+  if (vehicle.franchiseExpiresAt <= new Date()) {
+    throw new BadRequestError("Vehicle franchise has expired");
+  }
+
+  if (vehicle.currentDriverId) {
+    throw new ConflictError("Vehicle already has a driver, unassign them first");
+  }
+
+  const driver = await prisma.user.findUnique({
+    where: { id: driverId, isDeleted: false, status: "active", role: "driver" },
+    select: { id: true, driverProfile: { select: { status: true } } },
+  });
+
+  if (!driver) {
+    throw new NotFoundError("Driver not found");
+  }
+
+  if (driver.driverProfile?.status !== "approved") {
+    throw new BadRequestError("Driver profile is not approved");
+  }
+
+  const driverVehicle = await prisma.vehicle.findFirst({ where: { currentDriverId: driverId }, select: { id: true } });
+
+  if (driverVehicle) {
+    throw new ConflictError("Driver is already assigned to another vehicle");
+  }
+
+  // Claim the driver first; the unique index rejects a second open assignment
+  let assignment;
+  try {
+    assignment = await prisma.vehicleAssignment.create({
+      data: { vehicleId: id, driverId, operatorId: vehicle.operatorId, assignedBy: actor.id, endedAt: null },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new ConflictError("Driver is already assigned to another vehicle");
+    }
+    throw error;
+  }
+
+  const { count } = await prisma.vehicle.updateMany({
+    where: { id, currentDriverId: null },
+    data: { currentDriverId: driverId },
+  });
+
+  if (count === 0) {
+    // Another request took the vehicle; give the driver back
+    await prisma.vehicleAssignment.delete({ where: { id: assignment.id } });
+    throw new ConflictError("Vehicle was assigned by another request, please retry");
+  }
+
+  await auditService.record({
+    action: "vehicle.assign",
+    actor,
+    targetType: "vehicle",
+    targetId: id,
+    before: { currentDriverId: null },
+    after: { currentDriverId: driverId },
+    context,
+  });
+
+  return {
+    success: true,
+    message: "Driver assigned successfully",
+    data: assignment,
+  };
+}
+
+async function unassignDriver(id: string, reason: string | undefined, actor: Actor, context?: RequestContext) {
+  const vehicle = await findVehicle(id, actor);
+
+  if (!vehicle.currentDriverId) {
+    throw new ConflictError("Vehicle has no driver assigned");
+  }
+
+  await endAssignment(vehicle, actor, reason ?? "Unassigned");
+
+  await auditService.record({
+    action: "vehicle.unassign",
+    actor,
+    targetType: "vehicle",
+    targetId: id,
+    before: { currentDriverId: vehicle.currentDriverId },
+    after: { currentDriverId: null },
+    context,
+  });
+
+  return {
+    success: true,
+    message: "Driver unassigned successfully",
+  };
+}
+
+// Assignment history of a vehicle, newest first
+async function getAssignments(id: string, actor: Actor) {
+  await findVehicle(id, actor);
+
+  const assignments = await prisma.vehicleAssignment.findMany({
+    where: { vehicleId: id },
+    orderBy: [{ assignedAt: "desc" }, { id: "desc" }],
+  });
+
+  return {
+    success: true,
+    message: "Assignments retrieved successfully",
+    data: assignments,
+  };
+}
@@ -2,7 +2,34 @@ export interface ApiResponse<T = any> {
   success: boolean;
   message?: string;
   data?: T;
-  error?: string;
+  error?: ErrorCode | string;
+  errors?: ValidationErrorDetail[];
+}
+
+export type ErrorCode =
+  | "BAD_REQUEST"
+  | "VALIDATION_ERROR"
+  | "INVALID_ID"
+  | "UNAUTHORIZED"
+  | "INVALID_TOKEN"
+  | "TOKEN_REUSED"
+  | "SESSION_REVOKED"
+  | "FORBIDDEN"
+  | "EMAIL_NOT_VERIFIED"
+  | "DRIVER_NOT_APPROVED"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "UNPROCESSABLE_ENTITY"
+  | "IDEMPOTENCY_KEY_REUSED"
+  | "PAYLOAD_TOO_LARGE"
+  | "UNSUPPORTED_MEDIA_TYPE"
+  | "TOO_MANY_REQUESTS"
+  | "INTERNAL_ERROR";
+
+export interface ValidationErrorDetail {
+  location: "body" | "query" | "params";
+  field: string;
+  message: string;
 }
 
 export interface PaginationParams {
@@ -22,14 +49,14 @@ export interface CreateUserData {
   firstName: string;
   lastName: string;
   middleName?: string;
-  role?: "driver" | "passenger" | "admin";
+  role?: Role;
   status?: "active" | "inactive" | "banned";
   password: string;
   metadata?: {
     address?: string;
     phone?: string;
     age?: number;
-    gender?: string;
+    gender?: Gender;
   };
 }
 
@@ -38,7 +65,7 @@ export interface UpdateUserData {
   lastName?: string;
   middleName?: string;
   email?: string;
-  role?: "driver" | "passenger" | "admin";
+  role?: Role;
   status?: "active" | "inactive" | "banned";
   avatar?: string;
   password?: string;
@@ -46,40 +73,436 @@ export interface UpdateUserData {
     address?: string;
     phone?: string;
     age?: number;
-    gender?: string;
+    gender?: Gender;
+  };
+}
+
+// Fields users may change on their own profile
+export interface UpdateProfileData {
+  firstName?: string;
+  lastName?: string;
+  middleName?: string;
+  avatar?: string;
+  metadata?: {
+    address?: string;
+    phone?: string;
+    age?: number;
+    gender?: Gender;
   };
 }
 
 export interface SearchUserParams {
   query?: string;
-  role?: "driver" | "passenger" | "admin";
+  role?: Role;
   status?: "active" | "inactive" | "banned";
   limit?: number;
   offset?: number;
 }
 
+export type FilterOperator = "eq" | "ne" | "in" | "gt" | "gte" | "lt" | "lte" | "contains" | "exists";
+
+export interface FilterFieldSpec {
+  type: "string" | "number" | "date" | "boolean" | "enum";
+  values?: readonly string[];
+  optional?: boolean;
+}
+
+export type FilterFieldSpecs = Record<string, FilterFieldSpec>;
+
+// Raw filter_* query params: a plain value (eq) or an { operator: value } map
+export type RawFilters = Record<string, string | Record<string, string>>;
+
 export interface AuthUser {
   id: string;
   email: string;
   firstName: string;
   lastName: string;
   middleName?: string;
-  role: "driver" | "passenger" | "admin";
+  role: Role;
   status: "active" | "inactive" | "banned";
   createdAt: Date;
+  emailVerified: boolean;
+  sessionId?: string;
+}
+
+// Roles are stored in the database; admin, driver and passenger are seeded defaults
+export type Role = string;
+export type Status = "active" | "inactive" | "banned";
+export type Gender = "male" | "female" | "other";
+export type Permission =
+  | "read:users"
+  | "write:users"
+  | "delete:users"
+  | "dispatch:queues"
+  | "manage:vehicles"
+  | "admin:all";
+
+// The user an authorization decision is made for
+export interface Actor {
+  id: string;
+  role: Role;
+}
+
+// Attributes of the resource a policy condition is evaluated against
+export interface PolicyResource {
+  ownerId?: string;
+  role?: Role;
+  status?: Status;
+}
+
+// All listed constraints must hold for the rule to apply
+export interface PolicyCondition {
+  own?: boolean; // the resource belongs to the actor
+  roles?: Role[]; // the resource's role is one of these
+  notRoles?: Role[]; // the resource's role is none of these
+  statuses?: Status[]; // the resource's status is one of these
+}
+
+export interface PolicyRule {
+  action: Permission;
+  when?: PolicyCondition;
+}
+
+export type RolePolicies = Record<Role, PolicyRule[]>;
+
+export interface CreateRoleData {
+  name: Role;
+  description?: string;
+  permissions: PolicyRule[];
 }
 
-export type Role = "driver" | "passenger" | "admin";
-export type Permission = "read:users" | "write:users" | "delete:users" | "admin:all";
+export interface UpdateRoleData {
+  description?: string;
+  permissions?: PolicyRule[];
+}
+
+export type DriverProfileStatus = "pending" | "under_review" | "approved" | "rejected" | "expired";
+
+export interface SubmitDriverProfileData {
+  licenseNumber: string;
+  licenseExpiresAt: Date;
+  plateNumber: string;
+  bodyNumber: string;
+  franchiseNumber: string;
+  franchiseExpiresAt: Date;
+  todaName?: string;
+  documents?: {
+    type: "license" | "registration" | "franchise" | "clearance" | "other";
+    url: string;
+    expiresAt?: Date;
+  }[];
+}
+
+export interface ReviewDriverProfileData {
+  status: "under_review" | "approved" | "rejected";
+  reason?: string;
+}
+
+export type RideStatus = "requested" | "accepted" | "arrived" | "in_progress" | "completed" | "cancelled";
+
+export interface RideLocation {
+  lat: number;
+  lng: number;
+  address?: string;
+}
+
+export interface RequestRideData {
+  pickup: RideLocation;
+  dropoff: RideLocation;
+  passengerCount?: number;
+  notes?: string;
+}
+
+export interface RideHistoryQuery {
+  status?: RideStatus;
+  limit?: number;
+  after?: string;
+}
+
+export type DiscountCategory = "student" | "senior" | "pwd";
+
+// Fare rules; amounts are in centavos
+export interface FareMatrixConfig {
+  baseFare: number;
+  baseDistanceKm: number;
+  bands: { upToKm?: number | null; perKm: number }[]; // consecutive, starting at baseDistanceKm
+  nightSurcharge?: { startHour: number; endHour: number; percent: number } | null;
+  extraPassengerFee: number;
+  discounts: Record<DiscountCategory, number>; // percent
+  roundTo: number;
+  utcOffsetMinutes: number;
+}
+
+export interface CreateFareMatrixData extends FareMatrixConfig {
+  description?: string;
+  effectiveFrom?: Date;
+}
+
+export interface FareTrip {
+  distanceKm: number;
+  passengerCount: number;
+  discount?: DiscountCategory;
+  at: Date;
+}
+
+export interface FareLineItem {
+  code: "base" | "distance" | "night" | "discount" | "extra_passengers" | "rounding";
+  label: string;
+  amount: number;
+}
+
+export interface FareQuoteData {
+  pickup: RideLocation;
+  dropoff: RideLocation;
+  passengerCount?: number;
+  discount?: DiscountCategory;
+}
+
+export type DriverAvailability = "online" | "offline" | "busy";
+
+export interface UpdateDriverLocationData {
+  lat: number;
+  lng: number;
+  availability: DriverAvailability;
+  heading?: number;
+  speed?: number;
+  accuracy?: number;
+}
+
+export interface NearbyDriversQuery {
+  lat: number;
+  lng: number;
+  radius?: number; // metres
+  limit?: number;
+  fields?: string;
+}
+
+export type RealtimeTopicKind = "user.status" | "driver.location" | "ride.status";
+
+export interface EventStreamQuery {
+  topics: string[];
+  resumeToken?: string;
+}
+
+export interface CreateReviewData {
+  rideId: string;
+  rating: number;
+  tags?: string[];
+  comment?: string;
+}
+
+export type UpdateReviewData = Partial<Omit<CreateReviewData, "rideId">>;
+
+export interface ReviewQuery {
+  driverId?: string;
+  hidden?: boolean;
+  rating?: number;
+  limit?: number;
+  after?: string;
+}
+
+export interface CreateTerminalData {
+  name: string;
+  todaName?: string;
+  location: RideLocation;
+}
+
+export interface UpdateTerminalData extends Partial<CreateTerminalData> {
+  isActive?: boolean;
+}
+
+export type VehicleStatus = "active" | "maintenance" | "retired";
+
+export interface CreateVehicleData {
+  operatorId?: string; // admins create vehicles for an operator; operators always own theirs
+  plateNumber: string;
+  bodyNumber: string;
+  franchiseNumber?: string;
+  franchiseExpiresAt: Date;
+  todaName?: string;
+}
+
+export interface UpdateVehicleData extends Partial<Omit<CreateVehicleData, "operatorId">> {
+  status?: VehicleStatus;
+}
+
+export type LedgerEntryType = "fare_collected" | "boundary_due" | "boundary_paid" | "adjustment";
+
+export interface CreateLedgerEntryData {
+  driverId: string;
+  type: LedgerEntryType;
+  amount: number; // centavos
+  rideId?: string;
+  note?: string;
+  businessDate?: string; // YYYY-MM-DD, defaults to today
+}
+
+export interface LedgerQuery {
+  driverId?: string;
+  type?: LedgerEntryType;
+  from?: string;
+  to?: string;
+  limit?: number;
+  after?: string;
+}
+
+export interface ListQueryParams {
+  page?: number;
+  limit?: number;
+  sort?: string;
+  order?: "asc" | "desc";
+  filters?: RawFilters;
+}
+
+// Identifies one idempotent request: the same key may be reused by other callers
+// or on other routes
+export interface IdempotencyRequest {
+  scope: string;
+  method: string;
+  path: string;
+  key: string;
+}
+
+// Where a request came from, recorded alongside audited changes
+export interface RequestContext {
+  ip?: string;
+  userAgent?: string;
+  requestId?: string;
+}
+
+export type AuditAction =
+  | "user.create"
+  | "user.update"
+  | "user.delete"
+  | "user.restore"
+  | "user.purge"
+  | "user.anonymize"
+  | "user.unlock"
+  | "user.profile_update"
+  | "user.password_change"
+  | "user.deactivate"
+  | "driver.submit"
+  | "driver.review"
+  | "fare.create"
+  | "fare.delete"
+  | "review.hide"
+  | "review.unhide"
+  | "terminal.create"
+  | "terminal.update"
+  | "queue.reorder"
+  | "queue.remove"
+  | "queue.dispatch"
+  | "vehicle.create"
+  | "vehicle.update"
+  | "vehicle.assign"
+  | "vehicle.unassign"
+  | "role.create"
+  | "role.update"
+  | "role.delete";
+
+export interface AuditEntry {
+  action: AuditAction;
+  actor?: Actor;
+  targetType: "user" | "role" | "driver_profile" | "fare_matrix" | "review" | "terminal" | "vehicle";
+  targetId?: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  context?: RequestContext;
+}
+
+export interface AuditLogQuery {
+  actorId?: string;
+  targetId?: string;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  after?: string;
+}
+
+export type EmailVerificationPolicy = "off" | "limited" | "required";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage & { from: string }) => Promise<void>;
+}
+
+export interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+export interface SmsTransport {
+  name: string;
+  send: (message: SmsMessage) => Promise<void>;
+}
+
+export type NotificationChannelName = "in_app" | "email" | "sms";
+
+export type NotificationType =
+  | "account.banned"
+  | "account.deactivated"
+  | "account.reactivated"
+  | "account.password_changed"
+  | "driver.approved"
+  | "driver.rejected";
+
+// A notification text with {{variable}} placeholders. Critical notifications (e.g. a
+// ban) ignore the user's preferences and go out on every channel of the template.
+export interface NotificationTemplate {
+  title: string;
+  body: string;
+  channels: NotificationChannelName[];
+  critical?: boolean;
+}
+
+// The user fields a channel may use to reach someone
+export interface NotificationRecipient {
+  id: string;
+  email: string;
+  firstName: string;
+  phone?: string | null;
+}
+
+export interface RenderedNotification {
+  type: string;
+  title: string;
+  body: string;
+  data: Record<string, string>;
+}
+
+// A way of delivering notifications. deliver returns false when the recipient can't be
+// reached on this channel, e.g. SMS to a user without a phone number.
+export interface NotificationChannel {
+  name: NotificationChannelName;
+  deliver: (recipient: NotificationRecipient, notification: RenderedNotification) => Promise<boolean>;
+}
+
+export interface NotificationQuery {
+  unread?: boolean;
+  limit?: number;
+  after?: string;
+}
 
-export interface RolePermissions {
-  [key: string]: Permission[];
+export interface UpdateNotificationPreferencesData {
+  inApp?: boolean;
+  email?: boolean;
+  sms?: boolean;
+  mutedTypes?: string[];
 }
 
 declare global {
   namespace Express {
     interface Request {
       user?: AuthUser;
+      id?: string;
     }
   }
 }
@@ -0,0 +1,50 @@
+// Fields whose values never reach the audit log
+const SECRET_FIELD = /password|token|secret/i;
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = new Set(["id", "createdAt", "updatedAt"]);
+
+export const REDACTED = "[REDACTED]";
+
+type Change = { from: unknown; to: unknown };
+
+const normalize = (value: unknown) => (value instanceof Date ? value.toISOString() : value ?? null);
+
+// Flatten nested objects to dotted paths, e.g. { metadata: { age } } -> "metadata.age"
+const flatten = (record: Record<string, any>, prefix = ""): Record<string, unknown> => {
+  const flat: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === "object" && !(value instanceof Date) && !Array.isArray(value)) {
+      Object.assign(flat, flatten(value, path));
+    } else {
+      flat[path] = normalize(value);
+    }
+  }
+
+  return flat;
+};
+
+// Field-level before/after diff with secrets redacted. `after` may be a partial
+// record, so only its fields are compared; without it (a hard delete) every field
+// of `before` is reported as removed.
+export const diffRecords = (before?: Record<string, any> | null, after?: Record<string, any> | null) => {
+  const from = flatten(before ?? {});
+  const to = flatten(after ?? {});
+  const paths = after ? Object.keys(to) : Object.keys(from);
+  const changes: Record<string, Change> = {};
+
+  for (const path of paths) {
+    if (IGNORED_FIELDS.has(path)) continue;
+
+    const previous = from[path] ?? null;
+    const next = to[path] ?? null;
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+
+    changes[path] = SECRET_FIELD.test(path)
+      ? { from: previous === null ? null : REDACTED, to: next === null ? null : REDACTED }
+      : { from: previous, to: next };
+  }
+
+  return changes;
+};
@@ -0,0 +1,54 @@
+import { BadRequestError } from "./errors";
+
+// Values a cursor can carry: sort keys are strings, numbers or dates
+export type CursorValue = string | number | Date;
+
+interface CursorPayload {
+  f: string; // sort field
+  v: string | number; // sort value (dates as ISO strings)
+  d?: 1; // value is a date
+  id: string;
+}
+
+// Opaque, URL-safe cursor encoding the sort key and id of a record
+export const encodeCursor = (sortField: string, record: Record<string, any>) => {
+  const value = record[sortField];
+  const payload: CursorPayload =
+    value instanceof Date ? { f: sortField, v: value.toISOString(), d: 1, id: record.id } : { f: sortField, v: value, id: record.id };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+};
+
+export const decodeCursor = (cursor: string, sortField: string): { value: CursorValue; id: string } => {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch (error) {
+    throw new BadRequestError("Invalid cursor");
+  }
+
+  if (!payload || typeof payload.id !== "string" || !["string", "number"].includes(typeof payload.v)) {
+    throw new BadRequestError("Invalid cursor");
+  }
+
+  if (payload.f !== sortField) {
+    throw new BadRequestError("Cursor does not match the requested sort");
+  }
+
+  return { value: payload.d ? new Date(payload.v) : payload.v, id: payload.id };
+};
+
+// Keyset condition for records strictly after (or before) the cursor in the given order.
+// Ties on the sort value are broken by id so paging stays stable under inserts.
+export const buildCursorWhere = (
+  sortField: string,
+  order: "asc" | "desc",
+  cursor: { value: CursorValue; id: string },
+  direction: "after" | "before"
+) => {
+  const forward = (order === "asc") === (direction === "after");
+  const op = forward ? "gt" : "lt";
+
+  return {
+    OR: [{ [sortField]: { [op]: cursor.value } }, { [sortField]: cursor.value, id: { [op]: cursor.id } }],
+  };
+};
@@ -0,0 +1,79 @@
+import { ErrorCode, ValidationErrorDetail } from "../types";
+
+// Base class for expected (operational) errors; the error handler turns these
+// into responses with their status code and machine-readable code
+export class AppError extends Error {
+  statusCode: number;
+  code: ErrorCode;
+
+  constructor(message: string, statusCode = 500, code: ErrorCode = "INTERNAL_ERROR") {
+    super(message);
+    this.name = new.target.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message = "Bad request", code: ErrorCode = "BAD_REQUEST") {
+    super(message, 400, code);
+  }
+}
+
+export class ValidationError extends AppError {
+  errors: ValidationErrorDetail[];
+
+  constructor(errors: ValidationErrorDetail[], message = "Validation failed") {
+    super(message, 400, "VALIDATION_ERROR");
+    this.errors = errors;
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = "Authentication required", code: ErrorCode = "UNAUTHORIZED") {
+    super(message, 401, code);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = "Insufficient permissions", code: ErrorCode = "FORBIDDEN") {
+    super(message, 403, code);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = "Resource not found", code: ErrorCode = "NOT_FOUND") {
+    super(message, 404, code);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message = "Resource already exists", code: ErrorCode = "CONFLICT") {
+    super(message, 409, code);
+  }
+}
+
+export class PayloadTooLargeError extends AppError {
+  constructor(message = "Payload too large", code: ErrorCode = "PAYLOAD_TOO_LARGE") {
+    super(message, 413, code);
+  }
+}
+
+export class UnsupportedMediaTypeError extends AppError {
+  constructor(message = "Unsupported media type", code: ErrorCode = "UNSUPPORTED_MEDIA_TYPE") {
+    super(message, 415, code);
+  }
+}
+
+export class UnprocessableEntityError extends AppError {
+  constructor(message = "Unprocessable entity", code: ErrorCode = "UNPROCESSABLE_ENTITY") {
+    super(message, 422, code);
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  constructor(message = "Too many requests", code: ErrorCode = "TOO_MANY_REQUESTS") {
+    super(message, 429, code);
+  }
+}
@@ -0,0 +1,140 @@
+import { FareMatrixConfig } from "../types";
+import { calculateFare } from "./fare.calculator";
+
+const matrix: FareMatrixConfig = {
+  baseFare: 1500,
+  baseDistanceKm: 2,
+  bands: [{ upToKm: 5, perKm: 500 }, { perKm: 800 }],
+  nightSurcharge: { startHour: 22, endHour: 5, percent: 20 },
+  extraPassengerFee: 1000,
+  discounts: { student: 20, senior: 20, pwd: 0 },
+  roundTo: 1,
+  utcOffsetMinutes: 480,
+};
+
+// Local time is UTC+8, so noon local is 04:00 UTC
+const localTime = (time: string) => new Date(`2026-01-15T${time}:00+08:00`);
+const noon = localTime("12:00");
+
+const amounts = (items: { code: string; amount: number }[]) => items.map(({ code, amount }) => [code, amount]);
+
+describe("calculateFare", () => {
+  it("charges only the base fare within the base distance", () => {
+    const fare = calculateFare(matrix, { distanceKm: 1.5, passengerCount: 1, at: noon });
+
+    expect(amounts(fare.items)).toEqual([["base", 1500]]);
+    expect(fare.total).toBe(1500);
+  });
+
+  it("splits the distance past the base across the bands", () => {
+    const fare = calculateFare(matrix, { distanceKm: 7, passengerCount: 1, at: noon });
+
+    expect(amounts(fare.items)).toEqual([
+      ["base", 1500],
+      ["distance", 1500], // 2–5 km: 3 km × 500
+      ["distance", 1600], // over 5 km: 2 km × 800
+    ]);
+    expect(fare.total).toBe(4600);
+  });
+
+  it("charges a partly used band for the distance inside it only", () => {
+    const fare = calculateFare(matrix, { distanceKm: 3.25, passengerCount: 1, at: noon });
+
+    expect(amounts(fare.items)).toEqual([
+      ["base", 1500],
+      ["distance", 625],
+    ]);
+  });
+
+  describe("night surcharge", () => {
+    const surcharge = (at: Date) =>
+      calculateFare(matrix, { distanceKm: 7, passengerCount: 1, at }).items.find((item) => item.code === "night")?.amount;
+
+    it("applies on both sides of midnight when the window wraps", () => {
+      expect(surcharge(localTime("22:00"))).toBe(920);
+      expect(surcharge(localTime("23:30"))).toBe(920);
+      expect(surcharge(localTime("00:00"))).toBe(920);
+      expect(surcharge(localTime("04:59"))).toBe(920);
+    });
+
+    it("doesn't apply outside the window, whose end hour is exclusive", () => {
+      expect(surcharge(localTime("05:00"))).toBeUndefined();
+      expect(surcharge(noon)).toBeUndefined();
+      expect(surcharge(localTime("21:59"))).toBeUndefined();
+    });
+
+    it("uses the matrix's UTC offset rather than UTC", () => {
+      // 15:00 UTC is 23:00 in UTC+8 but still afternoon in UTC
+      const at = new Date("2026-01-15T15:00:00Z");
+      const utcFare = calculateFare({ ...matrix, utcOffsetMinutes: 0 }, { distanceKm: 7, passengerCount: 1, at });
+
+      expect(surcharge(at)).toBe(920);
+      expect(utcFare.items.some((item) => item.code === "night")).toBe(false);
+    });
+
+    it("applies within a window that doesn't wrap", () => {
+      const eveningMatrix = { ...matrix, nightSurcharge: { startHour: 18, endHour: 22, percent: 10 } };
+      const at = (time: string) => calculateFare(eveningMatrix, { distanceKm: 7, passengerCount: 1, at: localTime(time) });
+
+      expect(at("18:00").items.find((item) => item.code === "night")?.amount).toBe(460);
+      expect(at("22:00").items.find((item) => item.code === "night")).toBeUndefined();
+      expect(at("02:00").items.find((item) => item.code === "night")).toBeUndefined();
+    });
+  });
+
+  describe("discounts", () => {
+    it("discounts the rider's fare including the night surcharge but not extra passengers", () => {
+      const fare = calculateFare(matrix, { distanceKm: 7, passengerCount: 3, discount: "student", at: localTime("23:00") });
+
+      expect(amounts(fare.items)).toEqual([
+        ["base", 1500],
+        ["distance", 1500],
+        ["distance", 1600],
+        ["night", 920],
+        ["discount", -1104], // 20% of 4600 + 920
+        ["extra_passengers", 2000],
+      ]);
+      expect(fare.total).toBe(6416);
+    });
+
+    it("skips categories with a zero discount", () => {
+      const fare = calculateFare(matrix, { distanceKm: 7, passengerCount: 1, discount: "pwd", at: noon });
+
+      expect(fare.items.some((item) => item.code === "discount")).toBe(false);
+      expect(fare.total).toBe(4600);
+    });
+  });
+
+  describe("rounding", () => {
+    const roundedMatrix = { ...matrix, roundTo: 100 };
+
+    it("rounds the total to the nearest roundTo and itemises the difference", () => {
+      const down = calculateFare(roundedMatrix, { distanceKm: 7, passengerCount: 3, discount: "student", at: localTime("23:00") });
+
+      expect(down.subtotal).toBe(6416);
+      expect(down.total).toBe(6400);
+      expect(down.items[down.items.length - 1]).toMatchObject({ code: "rounding", amount: -16 });
+
+      // 1500 + 1500 + 2.0625 km × 800 = 4650, halfway rounds up
+      const up = calculateFare(roundedMatrix, { distanceKm: 7.0625, passengerCount: 1, at: noon });
+
+      expect(up.subtotal).toBe(4650);
+      expect(up.total).toBe(4700);
+      expect(up.items[up.items.length - 1]).toMatchObject({ code: "rounding", amount: 50 });
+    });
+
+    it("adds no rounding item when the subtotal is already round", () => {
+      const fare = calculateFare(roundedMatrix, { distanceKm: 7, passengerCount: 1, at: noon });
+
+      expect(fare.total).toBe(4600);
+      expect(fare.items.some((item) => item.code === "rounding")).toBe(false);
+    });
+
+    it("sums the items to the total", () => {
+      const fare = calculateFare(roundedMatrix, { distanceKm: 9.37, passengerCount: 2, discount: "senior", at: localTime("03:00") });
+
+      expect(fare.items.reduce((sum, item) => sum + item.amount, 0)).toBe(fare.total);
+      expect(fare.total % 100).toBe(0);
+    });
+  });
+});
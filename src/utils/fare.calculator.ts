@@ -0,0 +1,85 @@
+import { DiscountCategory, FareLineItem, FareMatrixConfig, FareTrip } from "../types";
+
+const DISCOUNT_LABELS: Record<DiscountCategory, string> = {
+  student: "Student",
+  senior: "Senior citizen",
+  pwd: "PWD",
+};
+
+const peso = (centavos: number) => `₱${(centavos / 100).toFixed(2)}`;
+const km = (value: number) => `${Number(value.toFixed(2))} km`;
+
+// Local hour of day in the matrix's timezone
+const localHour = (at: Date, utcOffsetMinutes: number) =>
+  new Date(at.getTime() + utcOffsetMinutes * 60 * 1000).getUTCHours();
+
+// Night windows may wrap past midnight, e.g. 22 -> 5
+const isNight = (hour: number, window: { startHour: number; endHour: number }) =>
+  window.startHour <= window.endHour
+    ? hour >= window.startHour && hour < window.endHour
+    : hour >= window.startHour || hour < window.endHour;
+
+// Pure fare calculation with an itemised breakdown. Amounts are integer centavos.
+//
+// The base fare covers the first baseDistanceKm; each band then charges perKm for the
+// distance that falls inside it. The night surcharge applies to base + distance, the
+// discount to the fare of the discounted rider (base + distance + night), and extra
+// passengers pay a flat fee each. The total is rounded to the nearest roundTo.
+export const calculateFare = (matrix: FareMatrixConfig, trip: FareTrip) => {
+  const items: FareLineItem[] = [];
+
+  items.push({ code: "base", label: `Base fare (first ${km(matrix.baseDistanceKm)})`, amount: matrix.baseFare });
+
+  let bandStart = matrix.baseDistanceKm;
+  for (const band of matrix.bands) {
+    const bandEnd = band.upToKm ?? Infinity;
+    const distance = Math.min(Math.max(trip.distanceKm - bandStart, 0), bandEnd - bandStart);
+
+    if (distance > 0) {
+      const range = band.upToKm ? `${km(bandStart)}–${km(band.upToKm)}` : `over ${km(bandStart)}`;
+      items.push({
+        code: "distance",
+        label: `Distance ${range} (${km(distance)} × ${peso(band.perKm)})`,
+        amount: Math.round(distance * band.perKm),
+      });
+    }
+
+    bandStart = bandEnd;
+  }
+
+  const rideFare = items.reduce((sum, item) => sum + item.amount, 0);
+
+  let riderFare = rideFare;
+  if (matrix.nightSurcharge && isNight(localHour(trip.at, matrix.utcOffsetMinutes), matrix.nightSurcharge)) {
+    const surcharge = Math.round((rideFare * matrix.nightSurcharge.percent) / 100);
+    items.push({ code: "night", label: `Night surcharge (${matrix.nightSurcharge.percent}%)`, amount: surcharge });
+    riderFare += surcharge;
+  }
+
+  if (trip.discount && matrix.discounts[trip.discount] > 0) {
+    const percent = matrix.discounts[trip.discount];
+    items.push({
+      code: "discount",
+      label: `${DISCOUNT_LABELS[trip.discount]} discount (${percent}%)`,
+      amount: -Math.round((riderFare * percent) / 100),
+    });
+  }
+
+  const extraPassengers = Math.max(trip.passengerCount - 1, 0);
+  if (extraPassengers > 0 && matrix.extraPassengerFee > 0) {
+    items.push({
+      code: "extra_passengers",
+      label: `Extra passengers (${extraPassengers} × ${peso(matrix.extraPassengerFee)})`,
+      amount: extraPassengers * matrix.extraPassengerFee,
+    });
+  }
+
+  const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
+  const total = matrix.roundTo > 1 ? Math.round(subtotal / matrix.roundTo) * matrix.roundTo : subtotal;
+
+  if (total !== subtotal) {
+    items.push({ code: "rounding", label: "Rounding", amount: total - subtotal });
+  }
+
+  return { items, subtotal, total };
+};
@@ -0,0 +1,29 @@
+import { haversineKm } from "./geo";
+
+describe("haversineKm", () => {
+  it("is zero between a point and itself", () => {
+    expect(haversineKm({ lat: 14.5995, lng: 120.9842 }, { lat: 14.5995, lng: 120.9842 })).toBe(0);
+  });
+
+  it("measures one degree of latitude or of longitude on the equator as about 111.19 km", () => {
+    expect(haversineKm({ lat: 0, lng: 0 }, { lat: 1, lng: 0 })).toBeCloseTo(111.19, 2);
+    expect(haversineKm({ lat: 0, lng: 0 }, { lat: 0, lng: 1 })).toBeCloseTo(111.19, 2);
+  });
+
+  it("shrinks degrees of longitude away from the equator", () => {
+    // cos(60°) = 0.5
+    expect(haversineKm({ lat: 60, lng: 0 }, { lat: 60, lng: 1 })).toBeCloseTo(55.6, 1);
+  });
+
+  it("measures half the circumference between antipodes", () => {
+    expect(haversineKm({ lat: 0, lng: 0 }, { lat: 0, lng: 180 })).toBeCloseTo(Math.PI * 6371, 6);
+  });
+
+  it("is the same in both directions and across the antimeridian", () => {
+    const manila = { lat: 14.5995, lng: 120.9842 };
+    const quezonCity = { lat: 14.676, lng: 121.0437 };
+
+    expect(haversineKm(manila, quezonCity)).toBeCloseTo(haversineKm(quezonCity, manila), 10);
+    expect(haversineKm({ lat: 0, lng: 179.5 }, { lat: 0, lng: -179.5 })).toBeCloseTo(111.19, 2);
+  });
+});
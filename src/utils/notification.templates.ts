@@ -0,0 +1,44 @@
+import { NotificationTemplate, NotificationType } from "../types";
+
+// Notification texts by type. Placeholders are filled from the recipient's User record
+// (firstName, lastName, middleName, email, role, status) and the data passed to notify.
+export const NOTIFICATION_TEMPLATES: Record<NotificationType, NotificationTemplate> = {
+  "account.banned": {
+    title: "Your account has been banned",
+    body: "Hi {{firstName}}, your account has been banned and you have been signed out. Contact support if you think this is a mistake.",
+    channels: ["in_app", "email", "sms"],
+    critical: true,
+  },
+  "account.deactivated": {
+    title: "Your account has been deactivated",
+    body: "Hi {{firstName}}, your account has been deactivated and you have been signed out.",
+    channels: ["in_app", "email"],
+  },
+  "account.reactivated": {
+    title: "Your account is active again",
+    body: "Hi {{firstName}}, your account has been reactivated. You can sign in again with {{email}}.",
+    channels: ["in_app", "email"],
+  },
+  "account.password_changed": {
+    title: "Your password was changed",
+    body: "Hi {{firstName}}, the password for {{email}} was just changed. If this wasn't you, reset your password right away.",
+    channels: ["in_app", "email", "sms"],
+    critical: true,
+  },
+  "driver.approved": {
+    title: "Your driver profile is approved",
+    body: "Hi {{firstName}}, your driver profile has been approved. You can now go online and join terminal queues.",
+    channels: ["in_app", "email", "sms"],
+  },
+  "driver.rejected": {
+    title: "Your driver profile was not approved",
+    body: "Hi {{firstName}}, your driver profile was not approved: {{reason}}",
+    channels: ["in_app", "email"],
+  },
+};
+
+export const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_TEMPLATES) as NotificationType[];
+
+// Replace {{name}} placeholders; unknown names render as empty text
+export const renderTemplate = (text: string, variables: Record<string, string | null | undefined>) =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => variables[name] ?? "");
@@ -0,0 +1,30 @@
+import { FilterFieldSpecs } from "../types";
+import { ValidationError } from "./errors";
+import { buildFilterConditions, extractFilters } from "./query.filter";
+
+const specs: FilterFieldSpecs = {
+  email: { type: "string" },
+  "metadata.age": { type: "number", optional: true },
+};
+
+describe("buildFilterConditions", () => {
+  it("builds conditions for whitelisted fields", () => {
+    expect(buildFilterConditions({ email: "a@example.com", "metadata.age": { gte: "18" } }, specs)).toEqual([
+      { email: { equals: "a@example.com" } },
+      { metadata: { is: { age: { gte: 18 } } } },
+    ]);
+  });
+
+  it.each(["toString", "constructor", "hasOwnProperty", "__proto__"])("rejects the prototype key %s as an unknown field", (path) => {
+    expect(() => buildFilterConditions({ [path]: "x" }, specs)).toThrow(ValidationError);
+  });
+});
+
+describe("extractFilters", () => {
+  it("keeps a filter___proto__ param as a plain key", () => {
+    const filters = extractFilters({ filter___proto__: { eq: "x" }, filter_email: "a@example.com" });
+
+    expect(Object.keys(filters ?? {})).toEqual(["__proto__", "email"]);
+    expect(() => buildFilterConditions(filters!, specs)).toThrow(ValidationError);
+  });
+});
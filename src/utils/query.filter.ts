@@ -0,0 +1,136 @@
+import { FilterFieldSpec, FilterFieldSpecs, FilterOperator, RawFilters, ValidationErrorDetail } from "../types";
+import { ValidationError } from "./errors";
+
+const OPERATORS_BY_TYPE: Record<FilterFieldSpec["type"], FilterOperator[]> = {
+  string: ["eq", "ne", "in", "contains", "exists"],
+  enum: ["eq", "ne", "in", "exists"],
+  number: ["eq", "ne", "in", "gt", "gte", "lt", "lte", "exists"],
+  date: ["eq", "ne", "in", "gt", "gte", "lt", "lte", "exists"],
+  boolean: ["eq", "ne", "exists"],
+};
+
+// Convert a raw query string value to the field's type, or undefined if it doesn't fit
+const coerce = (spec: FilterFieldSpec, raw: string) => {
+  switch (spec.type) {
+    case "number": {
+      const value = Number(raw);
+      return raw.trim() !== "" && Number.isFinite(value) ? value : undefined;
+    }
+    case "date": {
+      const value = new Date(raw);
+      return isNaN(value.getTime()) ? undefined : value;
+    }
+    case "boolean":
+      return raw === "true" ? true : raw === "false" ? false : undefined;
+    case "enum":
+      return spec.values?.includes(raw) ? raw : undefined;
+    default:
+      return raw;
+  }
+};
+
+const buildCondition = (
+  spec: FilterFieldSpec,
+  operator: FilterOperator,
+  raw: string
+): { condition: Record<string, any> } | { error: string } => {
+  if (operator === "exists") {
+    if (raw !== "true" && raw !== "false") return { error: "must be true or false" };
+    // isSet distinguishes missing fields from explicit nulls in MongoDB
+    return { condition: { isSet: raw === "true" } };
+  }
+
+  if (operator === "in") {
+    const values = raw.split(",").map((value) => coerce(spec, value.trim()));
+    if (values.some((value) => value === undefined)) return { error: `must be a comma-separated list of ${spec.type} values` };
+    return { condition: { in: values } };
+  }
+
+  const value = coerce(spec, raw);
+  if (value === undefined) {
+    return { error: spec.type === "enum" ? `must be one of [${spec.values?.join(", ")}]` : `must be a valid ${spec.type}` };
+  }
+
+  switch (operator) {
+    case "eq":
+      return { condition: { equals: value } };
+    case "ne":
+      return { condition: { not: value } };
+    case "contains":
+      return { condition: { contains: value, mode: "insensitive" } };
+    default:
+      return { condition: { [operator]: value } };
+  }
+};
+
+// Wrap a condition for its path, e.g. metadata.age -> { metadata: { is: { age: condition } } }
+const nest = (path: string[], condition: Record<string, any>): Record<string, any> => {
+  const [head, ...rest] = path;
+  return rest.length === 0 ? { [head]: condition } : { [head]: { is: nest(rest, condition) } };
+};
+
+// Translate filter_<path>=value / filter_<path>[op]=value params into Prisma where
+// conditions. Only whitelisted fields and operators are accepted.
+export const buildFilterConditions = (filters: RawFilters, specs: FilterFieldSpecs) => {
+  const conditions: Record<string, any>[] = [];
+  const errors: ValidationErrorDetail[] = [];
+
+  for (const [path, rawValue] of Object.entries(filters)) {
+    const field = `filter_${path}`;
+    // Own keys only, so names like toString or constructor aren't taken for fields
+    const spec = Object.prototype.hasOwnProperty.call(specs, path) ? specs[path] : undefined;
+
+    if (!spec) {
+      errors.push({ location: "query", field, message: `${path} is not a filterable field` });
+      continue;
+    }
+
+    const entries = typeof rawValue === "string" ? [["eq", rawValue] as const] : Object.entries(rawValue);
+
+    for (const [operator, raw] of entries) {
+      const allowed = OPERATORS_BY_TYPE[spec.type].filter((op) => op !== "exists" || spec.optional);
+
+      if (!allowed.includes(operator as FilterOperator)) {
+        errors.push({
+          location: "query",
+          field: `${field}[${operator}]`,
+          message: `operator ${operator} is not supported for ${path}, use one of [${allowed.join(", ")}]`,
+        });
+        continue;
+      }
+
+      if (typeof raw !== "string") {
+        errors.push({ location: "query", field: `${field}[${operator}]`, message: "must be a single value" });
+        continue;
+      }
+
+      const result = buildCondition(spec, operator as FilterOperator, raw);
+      if ("error" in result) {
+        errors.push({ location: "query", field: `${field}[${operator}]`, message: `${path} ${result.error}` });
+        continue;
+      }
+
+      conditions.push(nest(path.split("."), result.condition));
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors, "Invalid filter");
+  }
+
+  return conditions;
+};
+
+// Collect filter_<path> and filter_<path>[op] params from a parsed query string
+export const extractFilters = (query: Record<string, unknown>): RawFilters | undefined => {
+  // No prototype, so a filter___proto__ param is just an unknown field
+  const filters: RawFilters = Object.create(null);
+
+  Object.keys(query).forEach((key) => {
+    if (key.startsWith("filter_")) {
+      filters[key.replace("filter_", "")] = query[key] as RawFilters[string];
+    }
+  });
+
+  return Object.keys(filters).length > 0 ? filters : undefined;
+};
@@ -0,0 +1,113 @@
+import { Role, ValidationErrorDetail } from "../types";
+import { ValidationError } from "./errors";
+
+interface FieldAccess {
+  roles: Role[] | "all"; // roles that may see this field on any user
+  self?: boolean; // users may always see this field on their own record
+}
+
+// Roles are dynamic, so "everyone" can't be an explicit list
+const EVERYONE = "all";
+const ADMIN: Role[] = ["admin"];
+
+// Every selectable user field and who may see it. Fields not listed here
+// (password, relations) can never be selected.
+const USER_FIELD_POLICY: Record<string, FieldAccess> = {
+  id: { roles: EVERYONE },
+  firstName: { roles: EVERYONE },
+  lastName: { roles: EVERYONE },
+  middleName: { roles: EVERYONE },
+  avatar: { roles: EVERYONE },
+  role: { roles: EVERYONE },
+  createdAt: { roles: EVERYONE },
+  ratingAverage: { roles: EVERYONE },
+  ratingCount: { roles: EVERYONE },
+  email: { roles: ADMIN, self: true },
+  status: { roles: ADMIN, self: true },
+  emailVerifiedAt: { roles: ADMIN, self: true },
+  updatedAt: { roles: ADMIN, self: true },
+  isDeleted: { roles: ADMIN },
+  "metadata.address": { roles: ADMIN, self: true },
+  "metadata.phone": { roles: ADMIN, self: true },
+  "metadata.age": { roles: ADMIN, self: true },
+  "metadata.gender": { roles: ADMIN, self: true },
+};
+
+// Own keys only, so names like toString or constructor aren't taken for fields
+const fieldAccess = (path: string): FieldAccess | undefined =>
+  Object.prototype.hasOwnProperty.call(USER_FIELD_POLICY, path) ? USER_FIELD_POLICY[path] : undefined;
+
+export interface Viewer {
+  id: string;
+  role: Role;
+}
+
+// Whether the viewer may see a field on other users' records
+export const canViewUserField = (path: string, viewer: Viewer) => {
+  const roles = fieldAccess(path)?.roles;
+  return roles === EVERYONE || !!roles?.includes(viewer.role);
+};
+
+const isVisibleToSelf = (path: string, viewer: Viewer) =>
+  canViewUserField(path, viewer) || !!fieldAccess(path)?.self;
+
+// Turn a fields=a,b,metadata.c list into a Prisma select the viewer is allowed to run.
+// Unknown or secret fields are rejected; fields the viewer may only see on their own
+// record are selected but reported in selfOnly so they can be dropped from other rows.
+export const buildUserProjection = (fields: string | undefined, viewer: Viewer) => {
+  const requested = fields ? fields.split(",").map((field) => field.trim()) : [];
+  const errors: ValidationErrorDetail[] = [];
+  const paths = new Set<string>(["id"]);
+
+  for (const field of requested) {
+    // A composite parent such as "metadata" expands to its visible children
+    const children = Object.keys(USER_FIELD_POLICY).filter((path) => path.startsWith(`${field}.`));
+
+    if (children.length > 0) {
+      children.filter((path) => isVisibleToSelf(path, viewer)).forEach((path) => paths.add(path));
+    } else if (!fieldAccess(field)) {
+      errors.push({ location: "query", field: "fields", message: `${field} is not a selectable field` });
+    } else if (isVisibleToSelf(field, viewer)) {
+      paths.add(field);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors, "Invalid fields");
+  }
+
+  const select: Record<string, any> = {};
+  for (const path of paths) {
+    const [parent, child] = path.split(".");
+    if (child) {
+      select[parent] = select[parent] || { select: {} };
+      select[parent].select[child] = true;
+    } else {
+      select[parent] = true;
+    }
+  }
+
+  const selfOnly = [...paths].filter((path) => !canViewUserField(path, viewer));
+
+  return { select, selfOnly };
+};
+
+// Remove self-only fields from records that don't belong to the viewer
+export const applyUserProjection = <T extends Record<string, any>>(record: T, selfOnly: string[], viewer: Viewer): T => {
+  if (selfOnly.length === 0 || record.id === viewer.id) return record;
+
+  const projected: Record<string, any> = { ...record };
+  for (const path of selfOnly) {
+    const [parent, child] = path.split(".");
+    if (child) {
+      if (projected[parent]) {
+        const { [child]: _hidden, ...rest } = projected[parent];
+        projected[parent] = rest;
+      }
+    } else {
+      delete projected[parent];
+    }
+  }
+
+  return projected as T;
+};
@@ -0,0 +1,17 @@
+import Joi from "joi";
+import { AUDIT_ACTIONS } from "../services/audit.service";
+import { objectId } from "./common.validator";
+
+export const getAuditLogsSchema = {
+  query: Joi.object({
+    actorId: objectId,
+    targetId: objectId,
+    action: Joi.string().valid(...AUDIT_ACTIONS),
+    from: Joi.date().iso(),
+    to: Joi.date()
+      .iso()
+      .when("from", { is: Joi.exist(), then: Joi.date().min(Joi.ref("from")) }),
+    limit: Joi.number().integer().min(1).max(100),
+    after: Joi.string(),
+  }),
+};
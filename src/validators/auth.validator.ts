@@ -0,0 +1,46 @@
+import Joi from "joi";
+import { email, metadata, name, password, role } from "./common.validator";
+
+export const registerSchema = {
+  body: Joi.object({
+    firstName: name.required(),
+    lastName: name.required(),
+    middleName: name,
+    email: email.required(),
+    password: password.required(),
+    metadata,
+  }),
+};
+
+export const loginSchema = {
+  body: Joi.object({
+    email: email.required(),
+    password: Joi.string().required(),
+    role: role.required(),
+  }),
+};
+
+export const refreshTokenSchema = {
+  body: Joi.object({
+    refreshToken: Joi.string().required(),
+  }),
+};
+
+export const emailSchema = {
+  body: Joi.object({
+    email: email.required(),
+  }),
+};
+
+export const resetPasswordSchema = {
+  body: Joi.object({
+    token: Joi.string().required(),
+    password: password.required(),
+  }),
+};
+
+export const verifyEmailSchema = {
+  body: Joi.object({
+    token: Joi.string().required(),
+  }),
+};
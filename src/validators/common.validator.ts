@@ -0,0 +1,49 @@
+import Joi from "joi";
+import { Status, Gender } from "@prisma/client";
+
+// Shared building blocks for request schemas
+export const objectId = Joi.string().hex().length(24).messages({
+  "string.hex": "{{#label}} must be a valid id",
+  "string.length": "{{#label}} must be a valid id",
+});
+
+export const email = Joi.string().trim().email();
+
+// At least 8 characters with one letter and one number
+export const password = Joi.string()
+  .min(8)
+  .max(128)
+  .pattern(/[A-Za-z]/, "letter")
+  .pattern(/\d/, "number")
+  .messages({
+    "string.pattern.name": "{{#label}} must contain at least one {{#name}}",
+  });
+
+// Roles live in the database; services check that the role exists
+export const role = Joi.string()
+  .trim()
+  .lowercase()
+  .pattern(/^[a-z][a-z0-9_-]{1,31}$/)
+  .messages({ "string.pattern.base": "{{#label}} must be a valid role name" });
+export const status = Joi.string().valid(...Object.values(Status));
+export const gender = Joi.string().valid(...Object.values(Gender));
+
+export const name = Joi.string().trim().min(1).max(100);
+
+export const metadata = Joi.object({
+  address: Joi.string().trim().max(255),
+  phone: Joi.string()
+    .trim()
+    .pattern(/^\+?[0-9\s-]{7,20}$/)
+    .messages({ "string.pattern.base": "{{#label}} must be a valid phone number" }),
+  age: Joi.number().integer().min(0).max(150),
+  gender,
+});
+
+export const idParams = Joi.object({
+  id: objectId.required(),
+});
+
+export const fields = Joi.string().pattern(/^[A-Za-z0-9_.]+(,[A-Za-z0-9_.]+)*$/).messages({
+  "string.pattern.base": "{{#label}} must be a comma-separated list of field names",
+});
@@ -0,0 +1,86 @@
+import Joi from "joi";
+import { DriverDocumentType } from "@prisma/client";
+import { fields, idParams } from "./common.validator";
+
+const identifier = (pattern: RegExp, description: string) =>
+  Joi.string()
+    .trim()
+    .uppercase()
+    .pattern(pattern)
+    .messages({ "string.pattern.base": `{{#label}} must be a valid ${description}` });
+
+const expiryDate = Joi.date().iso().greater("now").messages({
+  "date.greater": "{{#label}} must be in the future",
+});
+
+export const submitDriverProfileSchema = {
+  body: Joi.object({
+    licenseNumber: identifier(/^[A-Z0-9-]{5,20}$/, "license number").required(),
+    licenseExpiresAt: expiryDate.required(),
+    plateNumber: identifier(/^[A-Z0-9 -]{2,10}$/, "plate number").required(),
+    bodyNumber: identifier(/^[A-Z0-9-]{1,10}$/, "body number").required(),
+    franchiseNumber: identifier(/^[A-Z0-9/-]{3,30}$/, "franchise number").required(),
+    franchiseExpiresAt: expiryDate.required(),
+    todaName: Joi.string().trim().max(100),
+    documents: Joi.array()
+      .items(
+        Joi.object({
+          type: Joi.string()
+            .valid(...Object.values(DriverDocumentType))
+            .required(),
+          url: Joi.string().uri().required(),
+          expiresAt: Joi.date().iso(),
+        })
+      )
+      .max(10),
+  }),
+};
+
+export const getDriverProfilesSchema = {
+  query: Joi.object({
+    status: Joi.string().valid("pending", "under_review", "approved", "rejected", "expired"),
+    page: Joi.number().integer().min(1),
+    limit: Joi.number().integer().min(1).max(100),
+  }),
+};
+
+export const driverUserIdSchema = {
+  params: idParams,
+};
+
+// Rejections must say why, so the driver knows what to fix
+export const reviewDriverProfileSchema = {
+  params: idParams,
+  body: Joi.object({
+    status: Joi.string().valid("under_review", "approved", "rejected").required(),
+    reason: Joi.string()
+      .trim()
+      .max(500)
+      .when("status", { is: "rejected", then: Joi.required() }),
+  }),
+};
+
+const latitude = Joi.number().min(-90).max(90);
+const longitude = Joi.number().min(-180).max(180);
+
+export const updateDriverLocationSchema = {
+  body: Joi.object({
+    lat: latitude.required(),
+    lng: longitude.required(),
+    availability: Joi.string().valid("online", "offline", "busy").required(),
+    heading: Joi.number().min(0).max(360),
+    speed: Joi.number().min(0), // metres per second
+    accuracy: Joi.number().min(0), // metres
+  }),
+};
+
+// Radius is in metres and capped so one query can't scan the whole city
+export const nearbyDriversSchema = {
+  query: Joi.object({
+    lat: latitude.required(),
+    lng: longitude.required(),
+    radius: Joi.number().integer().min(100).max(20000),
+    limit: Joi.number().integer().min(1).max(50),
+    fields,
+  }),
+};
@@ -0,0 +1,28 @@
+import Joi from "joi";
+import { TOPIC_PATTERN } from "../services/realtime.service";
+
+const MAX_TOPICS = 20;
+
+// topics=a,b,c becomes ["a", "b", "c"]; each topic must be one the server knows
+const topics = Joi.string().custom((value: string, helpers) => {
+  const list = [...new Set(value.split(",").map((topic) => topic.trim()))];
+  const invalid = list.filter((topic) => !TOPIC_PATTERN.test(topic));
+
+  if (invalid.length > 0) {
+    return helpers.message({ custom: `{{#label}} contains unknown topics: ${invalid.join(", ")}` });
+  }
+  if (list.length > MAX_TOPICS) {
+    return helpers.message({ custom: `{{#label}} must contain at most ${MAX_TOPICS} topics` });
+  }
+
+  return list;
+});
+
+export const eventStreamSchema = {
+  query: Joi.object({
+    topics: topics.required(),
+    resumeToken: Joi.string().max(100),
+    // Stream token from POST /api/events/token, for clients that can't send headers
+    token: Joi.string(),
+  }),
+};
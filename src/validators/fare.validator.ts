@@ -0,0 +1,80 @@
+import Joi from "joi";
+import { CreateFareMatrixData } from "../types";
+import { idParams } from "./common.validator";
+
+const centavos = Joi.number().integer().min(0);
+const percent = Joi.number().integer().min(0).max(100);
+const hour = Joi.number().integer().min(0).max(23);
+
+const location = Joi.object({
+  lat: Joi.number().min(-90).max(90).required(),
+  lng: Joi.number().min(-180).max(180).required(),
+  address: Joi.string().trim().max(255),
+});
+
+export const discountCategory = Joi.string().valid("student", "senior", "pwd");
+
+// Bands must run consecutively past the base distance and end with an open-ended band
+const validateBands = (value: CreateFareMatrixData, helpers: Joi.CustomHelpers<CreateFareMatrixData>) => {
+  let previous = value.baseDistanceKm;
+
+  for (const [index, band] of value.bands.entries()) {
+    const isLast = index === value.bands.length - 1;
+
+    if (band.upToKm === undefined || band.upToKm === null) {
+      if (!isLast) return helpers.message({ custom: "only the last band may omit upToKm" });
+    } else {
+      if (isLast) return helpers.message({ custom: "the last band must omit upToKm so every distance is charged" });
+      if (band.upToKm <= previous) {
+        return helpers.message({ custom: "band upToKm values must increase and exceed baseDistanceKm" });
+      }
+      previous = band.upToKm;
+    }
+  }
+
+  return value;
+};
+
+export const createFareMatrixSchema = {
+  body: Joi.object({
+    description: Joi.string().trim().max(255),
+    effectiveFrom: Joi.date().iso(),
+    baseFare: centavos.required(),
+    baseDistanceKm: Joi.number().min(0).required(),
+    bands: Joi.array()
+      .items(
+        Joi.object({
+          upToKm: Joi.number().positive(),
+          perKm: centavos.required(),
+        })
+      )
+      .min(1)
+      .required(),
+    nightSurcharge: Joi.object({
+      startHour: hour.required(),
+      endHour: hour.required(),
+      percent: percent.required(),
+    }),
+    extraPassengerFee: centavos.default(0),
+    discounts: Joi.object({
+      student: percent.required(),
+      senior: percent.required(),
+      pwd: percent.required(),
+    }).required(),
+    roundTo: Joi.number().integer().min(1).default(100),
+    utcOffsetMinutes: Joi.number().integer().min(-720).max(840).default(480),
+  }).custom(validateBands),
+};
+
+export const fareMatrixIdSchema = {
+  params: idParams,
+};
+
+export const quoteFareSchema = {
+  body: Joi.object({
+    pickup: location.required(),
+    dropoff: location.required(),
+    passengerCount: Joi.number().integer().min(1).max(6),
+    discount: discountCategory,
+  }),
+};
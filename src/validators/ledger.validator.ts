@@ -0,0 +1,96 @@
+import Joi from "joi";
+import { LedgerEntryType } from "@prisma/client";
+import { idParams, objectId } from "./common.validator";
+
+// A calendar day as YYYY-MM-DD; 2024-02-30 and the like are rejected
+const businessDate = Joi.string()
+  .pattern(/^\d{4}-\d{2}-\d{2}$/)
+  .custom((value, helpers) => {
+    const date = new Date(value);
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value) ? value : helpers.error("any.invalid");
+  })
+  .messages({
+    "string.pattern.base": "{{#label}} must be a date in YYYY-MM-DD format",
+    "any.invalid": "{{#label}} must be a valid date",
+  });
+
+// Centavos; up to ₱100,000 per entry
+const amount = Joi.number().integer().min(1).max(10_000_000);
+const note = Joi.string().trim().max(500);
+
+export const recordFareSchema = {
+  body: Joi.object({
+    amount: amount.required(),
+    rideId: objectId,
+    note,
+    businessDate,
+  }),
+};
+
+// Adjustments may go either way; every other type is a positive amount
+export const createLedgerEntrySchema = {
+  body: Joi.object({
+    driverId: objectId.required(),
+    type: Joi.string()
+      .valid(...Object.values(LedgerEntryType))
+      .required(),
+    amount: Joi.when("type", {
+      is: "adjustment",
+      then: Joi.number().integer().min(-10_000_000).max(10_000_000).invalid(0),
+      otherwise: amount,
+    }).required(),
+    rideId: objectId,
+    note,
+    businessDate,
+  }),
+};
+
+export const reverseLedgerEntrySchema = {
+  params: idParams,
+  body: Joi.object({
+    reason: Joi.string().trim().min(3).max(500).required(),
+  }),
+};
+
+const entriesQuery = {
+  type: Joi.string().valid(...Object.values(LedgerEntryType)),
+  from: businessDate,
+  to: businessDate,
+  limit: Joi.number().integer().min(1).max(100),
+  after: Joi.string(),
+};
+
+export const getOwnLedgerSchema = {
+  query: Joi.object(entriesQuery),
+};
+
+export const getLedgerSchema = {
+  query: Joi.object({ ...entriesQuery, driverId: objectId }),
+};
+
+export const dailySummarySchema = {
+  query: Joi.object({
+    date: businessDate,
+  }),
+};
+
+export const periodSummarySchema = {
+  query: Joi.object({
+    from: businessDate.required(),
+    to: businessDate.required(),
+  }),
+};
+
+export const driverBalanceSchema = {
+  params: idParams,
+};
+
+export const driverDailySummarySchema = {
+  params: idParams,
+  ...dailySummarySchema,
+};
+
+export const driverPeriodSummarySchema = {
+  params: idParams,
+  ...periodSummarySchema,
+};
@@ -0,0 +1,26 @@
+import Joi from "joi";
+import { NOTIFICATION_TYPES } from "../utils/notification.templates";
+import { idParams } from "./common.validator";
+
+export const getNotificationsSchema = {
+  query: Joi.object({
+    unread: Joi.boolean(),
+    limit: Joi.number().integer().min(1).max(100),
+    after: Joi.string(),
+  }),
+};
+
+export const notificationIdSchema = {
+  params: idParams,
+};
+
+export const updatePreferencesSchema = {
+  body: Joi.object({
+    inApp: Joi.boolean(),
+    email: Joi.boolean(),
+    sms: Joi.boolean(),
+    mutedTypes: Joi.array()
+      .items(Joi.string().valid(...NOTIFICATION_TYPES))
+      .unique(),
+  }).min(1),
+};
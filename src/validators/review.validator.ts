@@ -0,0 +1,58 @@
+import Joi from "joi";
+import { REVIEW_TAGS } from "../services/review.service";
+import { idParams, objectId } from "./common.validator";
+
+const rating = Joi.number().integer().min(1).max(5);
+const tags = Joi.array()
+  .items(Joi.string().valid(...REVIEW_TAGS))
+  .unique()
+  .max(5);
+const comment = Joi.string().trim().max(1000).allow("");
+
+export const createReviewSchema = {
+  body: Joi.object({
+    rideId: objectId.required(),
+    rating: rating.required(),
+    tags,
+    comment,
+  }),
+};
+
+export const updateReviewSchema = {
+  params: idParams,
+  body: Joi.object({
+    rating,
+    tags,
+    comment,
+  }).min(1),
+};
+
+export const driverReviewsSchema = {
+  params: idParams,
+  query: Joi.object({
+    limit: Joi.number().integer().min(1).max(100),
+    after: Joi.string(),
+  }),
+};
+
+export const getReviewsSchema = {
+  query: Joi.object({
+    driverId: objectId,
+    hidden: Joi.boolean(),
+    rating,
+    limit: Joi.number().integer().min(1).max(100),
+    after: Joi.string(),
+  }),
+};
+
+export const reviewIdSchema = {
+  params: idParams,
+};
+
+// Moderators must say why a review was hidden
+export const hideReviewSchema = {
+  params: idParams,
+  body: Joi.object({
+    reason: Joi.string().trim().min(3).max(500).required(),
+  }),
+};
@@ -0,0 +1,49 @@
+import Joi from "joi";
+import { idParams } from "./common.validator";
+
+const location = Joi.object({
+  lat: Joi.number().min(-90).max(90).required(),
+  lng: Joi.number().min(-180).max(180).required(),
+  address: Joi.string().trim().max(255),
+});
+
+export const requestRideSchema = {
+  body: Joi.object({
+    pickup: location.required(),
+    dropoff: location.required(),
+    passengerCount: Joi.number().integer().min(1).max(6),
+    notes: Joi.string().trim().max(500),
+  }),
+};
+
+export const rideHistorySchema = {
+  query: Joi.object({
+    status: Joi.string().valid("requested", "accepted", "arrived", "in_progress", "completed", "cancelled"),
+    limit: Joi.number().integer().min(1).max(100),
+    after: Joi.string(),
+  }),
+};
+
+export const availableRidesSchema = {
+  query: Joi.object({
+    limit: Joi.number().integer().min(1).max(100),
+  }),
+};
+
+export const rideIdSchema = {
+  params: idParams,
+};
+
+export const completeRideSchema = {
+  params: idParams,
+  body: Joi.object({
+    fare: Joi.number().integer().min(0), // centavos
+  }),
+};
+
+export const cancelRideSchema = {
+  params: idParams,
+  body: Joi.object({
+    reason: Joi.string().trim().max(500),
+  }),
+};
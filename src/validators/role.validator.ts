@@ -0,0 +1,42 @@
+import Joi from "joi";
+import { PERMISSIONS } from "../middleware/rbac";
+import { idParams, role, status } from "./common.validator";
+
+const policyCondition = Joi.object({
+  own: Joi.boolean().valid(true),
+  roles: Joi.array().items(role).min(1).unique(),
+  notRoles: Joi.array().items(role).min(1).unique(),
+  statuses: Joi.array().items(status).min(1).unique(),
+}).min(1);
+
+const policyRule = Joi.object({
+  action: Joi.string()
+    .valid(...PERMISSIONS)
+    .required(),
+  when: policyCondition,
+});
+
+const permissions = Joi.array().items(policyRule);
+
+const description = Joi.string().trim().max(255);
+
+export const createRoleSchema = {
+  body: Joi.object({
+    name: role.required(),
+    description,
+    permissions: permissions.required(),
+  }),
+};
+
+export const updateRoleSchema = {
+  params: idParams,
+  body: Joi.object({
+    name: Joi.forbidden().messages({ "any.unknown": "{{#label}} cannot be changed" }),
+    description,
+    permissions,
+  }).min(1),
+};
+
+export const roleIdSchema = {
+  params: idParams,
+};
@@ -0,0 +1,45 @@
+import Joi from "joi";
+import { idParams, objectId } from "./common.validator";
+
+const location = Joi.object({
+  lat: Joi.number().min(-90).max(90).required(),
+  lng: Joi.number().min(-180).max(180).required(),
+  address: Joi.string().trim().max(255),
+});
+
+export const createTerminalSchema = {
+  body: Joi.object({
+    name: Joi.string().trim().min(2).max(100).required(),
+    todaName: Joi.string().trim().max(100),
+    location: location.required(),
+  }),
+};
+
+export const updateTerminalSchema = {
+  params: idParams,
+  body: Joi.object({
+    name: Joi.string().trim().min(2).max(100),
+    todaName: Joi.string().trim().max(100),
+    location,
+    isActive: Joi.boolean(),
+  }).min(1),
+};
+
+export const terminalIdSchema = {
+  params: idParams,
+};
+
+// The full queue in its new order
+export const reorderQueueSchema = {
+  params: idParams,
+  body: Joi.object({
+    entryIds: Joi.array().items(objectId).unique().max(500).required(),
+  }),
+};
+
+export const queueEntryParamsSchema = {
+  params: Joi.object({
+    id: objectId.required(),
+    entryId: objectId.required(),
+  }),
+};
@@ -0,0 +1,104 @@
+import Joi from "joi";
+import { email, fields, idParams, metadata, name, objectId, password, role, status } from "./common.validator";
+
+export const getAllUsersSchema = {
+  query: Joi.object({
+    page: Joi.number().integer().min(1),
+    limit: Joi.number().integer().min(1).max(100),
+    sort: Joi.string(),
+    order: Joi.string().valid("asc", "desc"),
+    fields,
+    query: Joi.string().trim().max(100),
+    after: Joi.string(),
+    before: Joi.string(),
+    count: Joi.boolean(),
+  })
+    .pattern(/^filter_/, Joi.alternatives(Joi.string(), Joi.object().pattern(Joi.string(), Joi.string())))
+    .oxor("after", "before")
+    .nand("page", "after")
+    .nand("page", "before"),
+};
+
+// Operators list their own drivers; admins name the operator
+export const getOperatorDriversSchema = {
+  query: getAllUsersSchema.query.keys({
+    operatorId: objectId,
+  }),
+};
+
+export const getUserByIdSchema = {
+  params: idParams,
+  query: Joi.object({
+    fields,
+  }),
+};
+
+export const createUserSchema = {
+  body: Joi.object({
+    firstName: name.required(),
+    lastName: name.required(),
+    middleName: name,
+    email: email.required(),
+    password: password.required(),
+    role,
+    status,
+    metadata,
+  }),
+};
+
+export const updateUserSchema = {
+  params: idParams,
+  body: Joi.object({
+    firstName: name,
+    lastName: name,
+    middleName: name,
+    email,
+    password,
+    role,
+    status,
+    avatar: Joi.string().uri(),
+    metadata,
+  }).min(1),
+};
+
+export const getDeletedUsersSchema = {
+  query: Joi.object({
+    page: Joi.number().integer().min(1),
+    limit: Joi.number().integer().min(1).max(100),
+  }),
+};
+
+export const userIdSchema = {
+  params: idParams,
+};
+
+// Self-service edits; account-level fields are rejected rather than silently dropped
+export const updateProfileSchema = {
+  body: Joi.object({
+    firstName: name,
+    lastName: name,
+    middleName: name,
+    avatar: Joi.string().uri(),
+    metadata,
+    email: Joi.forbidden(),
+    password: Joi.forbidden().messages({ "any.unknown": "{{#label}} must be changed via /me/password" }),
+    role: Joi.forbidden(),
+    status: Joi.forbidden(),
+    isDeleted: Joi.forbidden(),
+  }).min(1),
+};
+
+export const changePasswordSchema = {
+  body: Joi.object({
+    currentPassword: Joi.string().required(),
+    newPassword: password.required().invalid(Joi.ref("currentPassword")).messages({
+      "any.invalid": "{{#label}} must differ from the current password",
+    }),
+  }),
+};
+
+export const deactivateAccountSchema = {
+  body: Joi.object({
+    password: Joi.string().required(),
+  }),
+};
@@ -0,0 +1,63 @@
+import Joi from "joi";
+import { idParams, objectId } from "./common.validator";
+
+const identifier = (pattern: RegExp, description: string) =>
+  Joi.string()
+    .trim()
+    .uppercase()
+    .pattern(pattern)
+    .messages({ "string.pattern.base": `{{#label}} must be a valid ${description}` });
+
+const plateNumber = identifier(/^[A-Z0-9 -]{2,10}$/, "plate number");
+const bodyNumber = identifier(/^[A-Z0-9-]{1,10}$/, "body number");
+const franchiseNumber = identifier(/^[A-Z0-9/-]{3,30}$/, "franchise number");
+
+export const getVehiclesSchema = {
+  query: Joi.object({
+    page: Joi.number().integer().min(1),
+    limit: Joi.number().integer().min(1).max(100),
+    sort: Joi.string(),
+    order: Joi.string().valid("asc", "desc"),
+  }).pattern(/^filter_/, Joi.alternatives(Joi.string(), Joi.object().pattern(Joi.string(), Joi.string()))),
+};
+
+export const createVehicleSchema = {
+  body: Joi.object({
+    operatorId: objectId,
+    plateNumber: plateNumber.required(),
+    bodyNumber: bodyNumber.required(),
+    franchiseNumber,
+    franchiseExpiresAt: Joi.date().iso().required(),
+    todaName: Joi.string().trim().max(100),
+  }),
+};
+
+export const updateVehicleSchema = {
+  params: idParams,
+  body: Joi.object({
+    plateNumber,
+    bodyNumber,
+    franchiseNumber,
+    franchiseExpiresAt: Joi.date().iso(),
+    todaName: Joi.string().trim().max(100),
+    status: Joi.string().valid("active", "maintenance", "retired"),
+  }).min(1),
+};
+
+export const vehicleIdSchema = {
+  params: idParams,
+};
+
+export const assignDriverSchema = {
+  params: idParams,
+  body: Joi.object({
+    driverId: objectId.required(),
+  }),
+};
+
+export const unassignDriverSchema = {
+  params: idParams,
+  body: Joi.object({
+    reason: Joi.string().trim().max(500),
+  }),
+};